@@ -3,16 +3,26 @@ import type { AppState, ViewTransform, MediaTransform, MediaType, Obj3dSettings
 import { DEFAULT_STATE } from './types';
 import CanvasView from './components/CanvasView';
 import Sidebar from './components/Sidebar';
-import { preloadImage, preloadVideo, preloadGif, clearAllMedia } from './engine/imageProcessor';
+import ExportDialog from './components/ExportDialog';
+import type { AnimationExportSettings } from './components/AnimationExportPanel';
+import type { ImageExportFormat, ImageExportSettings } from './components/ExportDialog';
+import { preloadImage, preloadVideo, preloadGif, clearAllMedia, getLoopDuration } from './engine/imageProcessor';
 import { load3DObject, clear3DObject } from './engine/objectLoader';
 import { ShapetoneRenderer } from './engine/ShapetoneRenderer';
+import { recordVideo } from './engine/videoRecorder';
+import { recordGif } from './engine/gifEncoder';
+import { POINTS_PER_INCH, POINTS_PER_MM } from './engine/pdfExport';
+import { GCODE_PEN_COMMANDS } from './engine/plotterExport';
+import { downloadBlob } from './utils/download';
+import { setPngDpi } from './utils/png';
 
 /** Showcase settings matching the demo screenshot */
 const SHOWCASE_STATE: AppState = {
   ...DEFAULT_STATE,
   shape: 'circle',
-  grid: { density: 6 },
+  grid: { density: 6, layout: 'square', angle: 0, center: { x: 0.5, y: 0.5 } },
   mapping: {
+    ...DEFAULT_STATE.mapping,
     invert: false,
     minSize: 0,
     maxSize: 100,
@@ -20,6 +30,7 @@ const SHOWCASE_STATE: AppState = {
     brightness: -100,
   },
   colors: {
+    ...DEFAULT_STATE.colors,
     background: '#000000',
     foreground: '#ffffff',
   },
@@ -28,9 +39,14 @@ const SHOWCASE_STATE: AppState = {
 
 export default function App() {
   const [state, setState] = useState<AppState>(SHOWCASE_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<ShapetoneRenderer | null>(null);
   const showcaseLoaded = useRef(false);
+  const [imageExport, setImageExport] = useState<ImageExportFormat | null>(null);
+  const [animationExportProgress, setAnimationExportProgress] = useState<number | null>(null);
+  const [histogram, setHistogram] = useState<Uint32Array | null>(null);
 
   // Auto-load showcase video on first mount
   useEffect(() => {
@@ -124,27 +140,112 @@ export default function App() {
     const canvas = canvasRef.current;
     if (!canvas) return;
     canvas.toBlob(blob => {
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `shapetone-${Date.now()}.png`;
-      a.click();
-      URL.revokeObjectURL(url);
+      if (blob) downloadBlob(blob, 'png');
     });
   }, []);
 
-  const handleDownloadSvg = useCallback(() => {
-    if (!rendererRef.current) return;
-    const svg = rendererRef.current.toSVG();
-    if (!svg) return;
-    const blob = new Blob([svg], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `shapetone-${Date.now()}.svg`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleExportImage = useCallback((settings: ImageExportSettings) => {
+    const renderer = rendererRef.current;
+    setImageExport(null);
+    if (!renderer) return;
+
+    if (settings.format === 'svg') {
+      const svg = renderer.toSVG(settings.print
+        ? { width: settings.print.width, height: settings.print.height, unit: settings.print.unit }
+        : { width: settings.width, height: settings.height }, settings.svgMode);
+      if (!svg) return;
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'svg');
+      return;
+    }
+
+    if (settings.format === 'text') {
+      const text = renderer.toText(settings.textFormat);
+      if (!text) return;
+      const html = settings.textFormat === 'html';
+      downloadBlob(new Blob([text], { type: html ? 'text/html' : 'text/plain' }), html ? 'html' : 'txt');
+      return;
+    }
+
+    if (settings.format === 'pdf') {
+      if (!settings.print) return;
+      const { unit, width, height, margin, bleed } = settings.print;
+      const pt = unit === 'mm' ? POINTS_PER_MM : POINTS_PER_INCH;
+      renderer.toPDF({ width: width * pt, height: height * pt, margin: margin * pt, bleed: bleed * pt })
+        .then(blob => blob && downloadBlob(blob, 'pdf'))
+        .catch(err => console.error('Failed to export PDF:', err));
+      return;
+    }
+
+    if (settings.format === 'plot') {
+      if (!settings.print) return;
+      const { machine, ...plotter } = settings.plotter;
+      const mm = settings.print.unit === 'mm' ? 1 : 25.4;
+      const plot = renderer.toPlot({
+        ...plotter,
+        ...GCODE_PEN_COMMANDS[machine],
+        width: settings.print.width * mm,
+        height: settings.print.height * mm,
+      });
+      if (!plot) return;
+      downloadBlob(new Blob([plot], { type: 'text/plain' }), plotter.format);
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    renderer.renderToCanvas(canvas, settings.width, settings.height);
+    canvas.toBlob(async blob => {
+      // Null when the browser could not allocate or encode a canvas this large
+      if (!blob) {
+        console.error(`Failed to export PNG: ${settings.width} × ${settings.height} px canvas could not be encoded`);
+        return;
+      }
+      try {
+        downloadBlob(settings.print ? await setPngDpi(blob, settings.print.dpi) : blob, 'png');
+      } catch (err) {
+        console.error('Failed to export PNG:', err);
+      }
+    });
+  }, []);
+
+  const handleExportAnimation = useCallback(async (settings: AnimationExportSettings) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+
+    const viewport = renderer.getViewportSize();
+    const aspect = viewport.width / viewport.height;
+    const height = settings.resolution === 0
+      ? viewport.height * (window.devicePixelRatio || 1)
+      : settings.resolution;
+    const width = height * aspect;
+    const duration = settings.duration ?? getLoopDuration(stateRef.current.obj3d.autoRotate) ?? 5;
+
+    setAnimationExportProgress(0);
+    try {
+      if (settings.format === 'gif') {
+        const blob = await recordGif(renderer, {
+          fps: settings.fps,
+          duration,
+          width,
+          height,
+          tones: settings.tones,
+          colors: stateRef.current.colors,
+        }, setAnimationExportProgress);
+        downloadBlob(blob, 'gif');
+      } else {
+        const blob = await recordVideo(renderer, {
+          format: settings.format,
+          fps: settings.fps,
+          duration,
+          width,
+          height,
+        }, setAnimationExportProgress);
+        downloadBlob(blob, settings.format);
+      }
+    } catch (err) {
+      console.error('Failed to export animation:', err);
+    } finally {
+      setAnimationExportProgress(null);
+    }
   }, []);
 
   return (
@@ -157,6 +258,7 @@ export default function App() {
           onViewChange={handleViewChange}
           onMediaTransformChange={handleMediaTransformChange}
           onObj3dChange={handleObj3dChange}
+          onHistogram={setHistogram}
         />
       </div>
       <Sidebar
@@ -166,14 +268,32 @@ export default function App() {
         onShapeChange={v => update('shape', v)}
         onCustomSvgUpload={handleCustomSvgUpload}
         onCustomTextCharChange={v => update('customTextChar', v)}
+        onShapeParamsChange={v => update('shapeParams', v)}
+        onShapeRampChange={v => update('shapeRamp', v)}
+        onOutlineChange={v => update('outline', v)}
         onGridChange={v => update('grid', v)}
+        onLineScreenChange={v => update('lineScreen', v)}
         onMappingChange={v => update('mapping', v)}
         onColorsChange={v => update('colors', v)}
+        onSeparationChange={v => update('separation', v)}
+        onBackendChange={v => update('backend', v)}
         onMediaTransformChange={handleMediaTransformChange}
         onObj3dChange={handleObj3dChange}
         onDownloadPng={handleDownloadPng}
-        onDownloadSvg={handleDownloadSvg}
+        onOpenImageExport={setImageExport}
+        onExportAnimation={handleExportAnimation}
+        animationExportProgress={animationExportProgress}
+        histogram={histogram}
       />
+      {imageExport && rendererRef.current && (
+        <ExportDialog
+          format={imageExport}
+          viewport={rendererRef.current.getViewportSize()}
+          density={state.grid.density}
+          onExport={handleExportImage}
+          onClose={() => setImageExport(null)}
+        />
+      )}
     </div>
   );
 }
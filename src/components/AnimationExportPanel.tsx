@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { MediaType } from '../types';
+import type { VideoFormat } from '../engine/videoRecorder';
+import { getSupportedVideoMimeType } from '../engine/videoRecorder';
+import { getLoopDuration } from '../engine/imageProcessor';
+import { Segmented, Slider, Toggle } from './controls';
+
+export type AnimationFormat = VideoFormat | 'gif';
+
+export interface AnimationExportSettings {
+  format: AnimationFormat;
+  fps: number;
+  resolution: number;        // output height in pixels; 0 = viewport size at device pixel ratio
+  duration: number | null;   // seconds, null = one full loop of the source
+  tones: number;             // GIF palette size
+}
+
+interface AnimationExportPanelProps {
+  target: 'video' | 'gif';
+  mediaType: MediaType | null;
+  autoRotate: boolean;   // whether a loaded 3D object turns, and so loops
+  progress: number | null;
+  onExport: (settings: AnimationExportSettings) => void;
+}
+
+export default function AnimationExportPanel({ target, mediaType, autoRotate, progress, onExport }: AnimationExportPanelProps) {
+  const webmSupported = getSupportedVideoMimeType('webm') !== null;
+  const mp4Supported = getSupportedVideoMimeType('mp4') !== null;
+  const isGif = target === 'gif';
+  const [videoFormat, setVideoFormat] = useState<VideoFormat>(webmSupported || !mp4Supported ? 'webm' : 'mp4');
+  const [fps, setFps] = useState(isGif ? 15 : 30);
+  const [resolution, setResolution] = useState(isGif ? 480 : 1080);
+  const [fullLoop, setFullLoop] = useState(true);
+  const [seconds, setSeconds] = useState(5);
+  const [tones, setTones] = useState(4);
+
+  const loopDuration = mediaType ? getLoopDuration(autoRotate) : null;
+  // GIF sources are re-encoded with their own frame delays
+  const keepsSourceTiming = isGif && mediaType === 'gif';
+  const recording = progress !== null;
+  const canRecord = (isGif || webmSupported || mp4Supported) && !recording;
+
+  return (
+    <div className="mt-2 space-y-3">
+      {isGif ? (
+        <Segmented
+          label="Tones"
+          value={tones}
+          options={[2, 4, 8, 16].map(v => ({ value: v, label: `${v}` }))}
+          onChange={setTones}
+        />
+      ) : (
+        <Segmented
+          label="Format"
+          value={videoFormat}
+          options={[
+            { value: 'webm', label: 'WebM', disabled: !webmSupported },
+            { value: 'mp4', label: 'MP4', disabled: !mp4Supported },
+          ]}
+          onChange={setVideoFormat}
+        />
+      )}
+      {!keepsSourceTiming && (
+        <Segmented
+          label="Frame Rate"
+          value={fps}
+          options={(isGif ? [10, 15, 25] : [24, 30, 60]).map(v => ({ value: v, label: `${v}` }))}
+          onChange={setFps}
+        />
+      )}
+      <Segmented
+        label="Resolution"
+        value={resolution}
+        options={isGif
+          ? [
+              { value: 240, label: '240p' },
+              { value: 360, label: '360p' },
+              { value: 480, label: '480p' },
+              { value: 720, label: '720p' },
+            ]
+          : [
+              { value: 0, label: 'View' },
+              { value: 720, label: '720p' },
+              { value: 1080, label: '1080p' },
+              { value: 2160, label: '4K' },
+            ]}
+        onChange={setResolution}
+      />
+      {loopDuration !== null && !keepsSourceTiming && (
+        <Toggle
+          label={`Full loop (${loopDuration.toFixed(1)}s)`}
+          checked={fullLoop}
+          onChange={setFullLoop}
+        />
+      )}
+      {loopDuration === null || (!fullLoop && !keepsSourceTiming) ? (
+        <Slider
+          label="Duration"
+          value={seconds}
+          min={1}
+          max={60}
+          step={1}
+          onChange={setSeconds}
+          format={v => `${v}s`}
+        />
+      ) : null}
+      <button
+        disabled={!canRecord}
+        onClick={() => onExport({
+          format: isGif ? 'gif' : videoFormat,
+          fps,
+          resolution,
+          duration: loopDuration !== null && (fullLoop || keepsSourceTiming) ? null : seconds,
+          tones,
+        })}
+        className={`relative w-full px-2 py-1.5 text-[10px] rounded-lg border overflow-hidden transition-colors ${
+          canRecord
+            ? 'bg-zinc-800 text-white/70 border-white/10 hover:bg-zinc-700'
+            : 'bg-zinc-900 text-white/40 border-white/5 cursor-not-allowed'
+        }`}
+      >
+        {recording && (
+          <span className="absolute inset-y-0 left-0 bg-white/10" style={{ width: `${(progress * 100).toFixed(1)}%` }} />
+        )}
+        <span className="relative">
+          {recording ? `${isGif ? 'Encoding' : 'Recording'} ${(progress * 100).toFixed(0)}%` : 'Record'}
+        </span>
+      </button>
+    </div>
+  );
+}
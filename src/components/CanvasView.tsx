@@ -9,9 +9,10 @@ interface CanvasViewProps {
   onViewChange: (view: ViewTransform) => void;
   onMediaTransformChange: (mt: MediaTransform) => void;
   onObj3dChange: (obj3d: Obj3dSettings) => void;
+  onHistogram?: (bins: Uint32Array) => void;
 }
 
-export default function CanvasView({ state, canvasRef: externalRef, rendererRef: externalRendererRef, onViewChange, onMediaTransformChange, onObj3dChange }: CanvasViewProps) {
+export default function CanvasView({ state, canvasRef: externalRef, rendererRef: externalRendererRef, onViewChange, onMediaTransformChange, onObj3dChange, onHistogram }: CanvasViewProps) {
   const internalRef = useRef<HTMLCanvasElement>(null);
   const canvasEl = externalRef || internalRef;
   const internalRendererRef = useRef<ShapetoneRenderer | null>(null);
@@ -24,6 +25,8 @@ export default function CanvasView({ state, canvasRef: externalRef, rendererRef:
   onMediaTransformChangeRef.current = onMediaTransformChange;
   const onObj3dChangeRef = useRef(onObj3dChange);
   onObj3dChangeRef.current = onObj3dChange;
+  const onHistogramRef = useRef(onHistogram);
+  onHistogramRef.current = onHistogram;
 
   useEffect(() => {
     const canvas = canvasEl.current;
@@ -32,6 +35,7 @@ export default function CanvasView({ state, canvasRef: externalRef, rendererRef:
     const renderer = new ShapetoneRenderer(canvas, state);
     internalRendererRef.current = renderer;
     if (externalRendererRef) externalRendererRef.current = renderer;
+    renderer.onHistogram = bins => onHistogramRef.current?.(bins);
     renderer.start();
 
     const handleResize = () => renderer.resize();
@@ -149,7 +153,7 @@ export default function CanvasView({ state, canvasRef: externalRef, rendererRef:
     window.addEventListener('mouseup', handleMouseUp);
 
     return () => {
-      renderer.stop();
+      renderer.destroy();
       window.removeEventListener('resize', handleResize);
       ro.disconnect();
       canvas.removeEventListener('wheel', handleWheel);
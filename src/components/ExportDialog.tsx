@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import type { SvgMode } from '../engine/svgExport';
+import { getTextGridSize } from '../engine/textExport';
+import type { TextFormat } from '../engine/textExport';
+import type { GCODE_PEN_COMMANDS, PlotterFill, PlotterFormat } from '../engine/plotterExport';
+import { NumberField, Segmented, Slider, Toggle } from './controls';
+
+export type ImageExportFormat = 'png' | 'svg' | 'pdf' | 'plot' | 'text';
+export type PrintUnit = 'mm' | 'in';
+
+/** Pen plotter output; the drawing size comes from the print size */
+export interface PlotterSettings {
+  format: PlotterFormat;
+  fill: PlotterFill;
+  penWidth: number;          // mm
+  hatchAngle: number;        // degrees
+  optimizeTravel: boolean;
+  machine: keyof typeof GCODE_PEN_COMMANDS;
+  feedRate: number;          // mm/min
+}
+
+export interface ImageExportSettings {
+  format: ImageExportFormat;
+  width: number;             // output pixels
+  height: number;
+  /** Set when sized for print: physical size and resolution; margin and bleed apply to PDF */
+  print: { width: number; height: number; unit: PrintUnit; dpi: number; margin: number; bleed: number } | null;
+  svgMode: SvgMode;
+  plotter: PlotterSettings;
+  textFormat: TextFormat;
+}
+
+interface ExportDialogProps {
+  format: ImageExportFormat;
+  viewport: { width: number; height: number };
+  density: number;           // grid spacing, the character size of text output
+  onExport: (settings: ImageExportSettings) => void;
+  onClose: () => void;
+}
+
+/** Largest canvas side browsers reliably allocate */
+const MAX_SIDE = 16384;
+/** Largest canvas area every desktop browser allocates (Firefox's limit; Chrome allows 16384²) */
+const MAX_AREA = 11180 * 11180;
+const MM_PER_INCH = 25.4;
+
+const PAPER_SIZES: { name: string; width: number; height: number }[] = [
+  { name: 'A4', width: 210, height: 297 },
+  { name: 'A3', width: 297, height: 420 },
+  { name: 'A2', width: 420, height: 594 },
+  { name: 'Letter', width: 215.9, height: 279.4 },
+];
+
+function toPixels(size: number, unit: PrintUnit, dpi: number): number {
+  const inches = unit === 'mm' ? size / MM_PER_INCH : size;
+  return Math.round(inches * dpi);
+}
+
+export default function ExportDialog({ format, viewport, density, onExport, onClose }: ExportDialogProps) {
+  const dpr = window.devicePixelRatio || 1;
+  // PDF and plots are always laid out on a physical page
+  const physical = format === 'pdf' || format === 'plot';
+  const [mode, setMode] = useState<'pixels' | 'print'>(physical ? 'print' : 'pixels');
+  const [pxWidth, setPxWidth] = useState(Math.round(viewport.width * dpr));
+  const [pxHeight, setPxHeight] = useState(Math.round(viewport.height * dpr));
+  const [lockAspect, setLockAspect] = useState(true);
+  const [unit, setUnit] = useState<PrintUnit>('mm');
+  const [printWidth, setPrintWidth] = useState(210);
+  const [printHeight, setPrintHeight] = useState(297);
+  const [dpi, setDpi] = useState(300);
+  const [margin, setMargin] = useState(10);
+  const [bleed, setBleed] = useState(0);
+  const [svgMode, setSvgMode] = useState<SvgMode>('compact');
+  const [plotter, setPlotter] = useState<PlotterSettings>({
+    format: 'gcode',
+    fill: 'concentric',
+    penWidth: 0.5,
+    hatchAngle: 45,
+    optimizeTravel: true,
+    machine: 'pen',
+    feedRate: 3000,
+  });
+  const [textFormat, setTextFormat] = useState<TextFormat>('plain');
+  const updatePlotter = (patch: Partial<PlotterSettings>) => setPlotter(p => ({ ...p, ...patch }));
+
+  const aspect = pxWidth / pxHeight;
+
+  const setPixelWidth = (v: number) => {
+    setPxWidth(v);
+    if (lockAspect) setPxHeight(Math.round(v / aspect));
+  };
+  const setPixelHeight = (v: number) => {
+    setPxHeight(v);
+    if (lockAspect) setPxWidth(Math.round(v * aspect));
+  };
+  const setPixelScale = (scale: number) => {
+    setPxWidth(Math.round(viewport.width * scale));
+    setPxHeight(Math.round(viewport.height * scale));
+  };
+
+  const changeUnit = (next: PrintUnit) => {
+    if (next === unit) return;
+    const factor = next === 'mm' ? MM_PER_INCH : 1 / MM_PER_INCH;
+    const round = (v: number) => Math.round(v * factor * 100) / 100;
+    setPrintWidth(round(printWidth));
+    setPrintHeight(round(printHeight));
+    setMargin(round(margin));
+    setBleed(round(bleed));
+    setUnit(next);
+  };
+  const applyPaper = (paper: { width: number; height: number }) => {
+    const factor = unit === 'mm' ? 1 : 1 / MM_PER_INCH;
+    const round = (v: number) => Math.round(v * factor * 100) / 100;
+    setPrintWidth(round(paper.width));
+    setPrintHeight(round(paper.height));
+  };
+
+  const outWidth = mode === 'pixels' ? Math.round(pxWidth) : toPixels(printWidth, unit, dpi);
+  const outHeight = mode === 'pixels' ? Math.round(pxHeight) : toPixels(printHeight, unit, dpi);
+  // SVG and PDF are resolution independent; only raster output is bounded by canvas limits
+  const tooLong = outWidth > MAX_SIDE || outHeight > MAX_SIDE;
+  const tooLarge = format === 'png' && (tooLong || outWidth * outHeight > MAX_AREA);
+  const marginTooLarge = format === 'pdf' && (2 * margin >= printWidth || 2 * margin >= printHeight);
+  const valid = outWidth > 0 && outHeight > 0 && !tooLarge && !marginTooLarge
+    && (format !== 'plot' || plotter.penWidth > 0);
+
+  const handleExport = () => {
+    if (!valid) return;
+    onExport({
+      format,
+      width: outWidth,
+      height: outHeight,
+      print: mode === 'print' ? { width: printWidth, height: printHeight, unit, dpi, margin, bleed } : null,
+      svgMode,
+      plotter,
+      textFormat,
+    });
+  };
+
+  const textSize = getTextGridSize(viewport.width, viewport.height, density);
+
+  const presetButton = 'px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="w-80 bg-zinc-900 border border-white/10 rounded-xl p-4 space-y-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-white text-xs tracking-widest uppercase">Export {format}</span>
+          <button onClick={onClose} className="text-white/40 hover:text-white/70 text-xs">x</button>
+        </div>
+
+        {!physical && format !== 'text' && (
+          <Segmented
+            label="Size"
+            value={mode}
+            options={[
+              { value: 'pixels', label: 'Pixels' },
+              { value: 'print', label: 'Print' },
+            ]}
+            onChange={setMode}
+          />
+        )}
+
+        {format === 'text' ? (
+          <Segmented
+            label="Text Output"
+            value={textFormat}
+            options={[
+              { value: 'plain', label: 'Plain text' },
+              { value: 'html', label: 'HTML' },
+            ]}
+            onChange={setTextFormat}
+          />
+        ) : mode === 'pixels' ? (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Width" value={pxWidth} min={1} step={1} onChange={setPixelWidth} suffix="px" />
+              <NumberField label="Height" value={pxHeight} min={1} step={1} onChange={setPixelHeight} suffix="px" />
+            </div>
+            <Toggle label="Lock aspect ratio" checked={lockAspect} onChange={setLockAspect} />
+            <div className="flex gap-1.5">
+              {[1, 2, 4].map(scale => (
+                <button key={scale} onClick={() => setPixelScale(scale)} className={presetButton}>
+                  {scale}× view
+                </button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <Segmented
+              label="Unit"
+              value={unit}
+              options={[
+                { value: 'mm', label: 'mm' },
+                { value: 'in', label: 'inch' },
+              ]}
+              onChange={changeUnit}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Width" value={printWidth} min={0.1} step={unit === 'mm' ? 1 : 0.1} onChange={setPrintWidth} suffix={unit} />
+              <NumberField label="Height" value={printHeight} min={0.1} step={unit === 'mm' ? 1 : 0.1} onChange={setPrintHeight} suffix={unit} />
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {PAPER_SIZES.map(paper => (
+                <button key={paper.name} onClick={() => applyPaper(paper)} className={presetButton}>
+                  {paper.name}
+                </button>
+              ))}
+              <button
+                onClick={() => {
+                  setPrintWidth(printHeight);
+                  setPrintHeight(printWidth);
+                }}
+                className={presetButton}
+              >
+                Rotate
+              </button>
+            </div>
+            {format === 'pdf' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Margin" value={margin} min={0} step={unit === 'mm' ? 1 : 0.1} onChange={setMargin} suffix={unit} />
+                <NumberField label="Bleed" value={bleed} min={0} step={unit === 'mm' ? 1 : 0.1} onChange={setBleed} suffix={unit} />
+              </div>
+            ) : format === 'plot' ? null : (
+              <Segmented
+                label="Resolution"
+                value={dpi}
+                options={[72, 150, 300, 600].map(v => ({ value: v, label: `${v} dpi` }))}
+                onChange={setDpi}
+              />
+            )}
+          </>
+        )}
+
+        {format === 'svg' && (
+          <Segmented
+            label="SVG Output"
+            value={svgMode}
+            options={[
+              { value: 'compact', label: 'Small file' },
+              { value: 'fidelity', label: 'Fidelity' },
+            ]}
+            onChange={setSvgMode}
+          />
+        )}
+
+        {format === 'plot' && (
+          <>
+            <Segmented
+              label="Output"
+              value={plotter.format}
+              options={[
+                { value: 'gcode', label: 'G-code' },
+                { value: 'hpgl', label: 'HPGL' },
+              ]}
+              onChange={v => updatePlotter({ format: v })}
+            />
+            {plotter.format === 'gcode' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Segmented
+                  label="Machine"
+                  value={plotter.machine}
+                  options={[
+                    { value: 'pen', label: 'Pen (Z)' },
+                    { value: 'laser', label: 'Laser' },
+                  ]}
+                  onChange={v => updatePlotter({ machine: v })}
+                />
+                <NumberField label="Feed" value={plotter.feedRate} min={1} step={100} onChange={v => updatePlotter({ feedRate: v })} suffix="mm/min" />
+              </div>
+            )}
+            <Segmented
+              label="Fill"
+              value={plotter.fill}
+              options={[
+                { value: 'concentric', label: 'Concentric' },
+                { value: 'hatch', label: 'Hatch' },
+              ]}
+              onChange={v => updatePlotter({ fill: v })}
+            />
+            <NumberField label="Pen width" value={plotter.penWidth} min={0.05} step={0.05} onChange={v => updatePlotter({ penWidth: v })} suffix="mm" />
+            {plotter.fill === 'hatch' && (
+              <Slider
+                label="Hatch angle"
+                value={plotter.hatchAngle}
+                min={0}
+                max={180}
+                step={5}
+                onChange={v => updatePlotter({ hatchAngle: v })}
+                format={v => `${v}°`}
+              />
+            )}
+            <Toggle label="Optimize travel" checked={plotter.optimizeTravel} onChange={v => updatePlotter({ optimizeTravel: v })} />
+          </>
+        )}
+
+        <div className="text-white/40 text-[10px] tabular-nums">
+          {format === 'text' ? (
+            <>{textSize.columns} × {textSize.rows} characters at {density}px</>
+          ) : format === 'plot' ? (
+            <>{printWidth} × {printHeight} {unit} drawing</>
+          ) : format === 'pdf' ? (
+            <>
+              {printWidth} × {printHeight} {unit} page
+              {marginTooLarge && <span className="text-red-400/80"> — margins leave no room</span>}
+            </>
+          ) : (
+            <>
+              {outWidth} × {outHeight} px
+              {tooLarge && (
+                <span className="text-red-400/80">
+                  {' '}— exceeds {tooLong ? `${MAX_SIDE}px per side` : `${(MAX_AREA / 1e6).toFixed(0)} megapixels`}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+
+        <button
+          disabled={!valid}
+          onClick={handleExport}
+          className={`w-full px-2 py-1.5 text-[10px] rounded-lg border transition-colors ${
+            valid
+              ? 'bg-zinc-800 text-white/70 border-white/10 hover:bg-zinc-700'
+              : 'bg-zinc-900 text-white/25 border-white/5 cursor-not-allowed'
+          }`}
+        >
+          Download {format === 'plot'
+            ? (plotter.format === 'gcode' ? 'G-code' : 'HPGL')
+            : format === 'text' ? (textFormat === 'html' ? 'HTML' : 'TXT') : format.toUpperCase()}
+        </button>
+      </div>
+    </div>
+  );
+}
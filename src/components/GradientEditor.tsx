@@ -0,0 +1,93 @@
+import type { GradientStop } from '../types';
+import { GRADIENT_PRESETS } from '../utils/colorPresets';
+import { buildGradientLut, packedToHex } from '../utils/color';
+
+interface GradientEditorProps {
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+}
+
+function cssGradient(stops: GradientStop[]): string {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  return `linear-gradient(to right, ${sorted.map(s => `${s.color} ${Math.round(s.offset * 100)}%`).join(', ')})`;
+}
+
+/** Stop list with a live ramp preview plus gradient presets, for the gradient map color mode */
+export default function GradientEditor({ stops, onChange }: GradientEditorProps) {
+  const updateStop = (index: number, stop: Partial<GradientStop>) => {
+    onChange(stops.map((s, i) => (i === index ? { ...s, ...stop } : s)));
+  };
+
+  // New stops go into the middle of the widest gap, colored like the ramp there
+  const addStop = () => {
+    const offsets = [0, ...stops.map(s => s.offset).sort((a, b) => a - b), 1];
+    let offset = 0.5;
+    let widest = -1;
+    for (let i = 1; i < offsets.length; i++) {
+      if (offsets[i] - offsets[i - 1] > widest) {
+        widest = offsets[i] - offsets[i - 1];
+        offset = (offsets[i] + offsets[i - 1]) / 2;
+      }
+    }
+    offset = Math.round(offset * 100) / 100;
+    const color = packedToHex(buildGradientLut(stops, 101)[Math.round(offset * 100)]);
+    onChange([...stops, { offset, color }]);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-white/50 text-[10px]">Gradient</span>
+      <div className="h-3 rounded border border-white/10" style={{ background: cssGradient(stops) }} />
+      {stops.map((stop, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <label
+            className="relative w-5 h-5 shrink-0 rounded cursor-pointer border border-white/10 overflow-hidden"
+            style={{ backgroundColor: stop.color }}
+          >
+            <input
+              type="color"
+              value={stop.color}
+              onChange={e => updateStop(i, { color: e.target.value })}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={1}
+            value={Math.round(stop.offset * 100)}
+            onChange={e => updateStop(i, { offset: Number(e.target.value) / 100 })}
+            className="flex-1 appearance-none cursor-pointer"
+          />
+          <span className="w-7 text-right text-white/70 tabular-nums text-[10px]">{Math.round(stop.offset * 100)}%</span>
+          <button
+            onClick={() => onChange(stops.filter((_, j) => j !== i))}
+            disabled={stops.length <= 2}
+            className="w-3 text-[10px] text-white/40 hover:text-white/70 disabled:text-white/10 disabled:cursor-not-allowed"
+          >
+            x
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addStop}
+        className="w-full py-1 rounded border border-dashed border-white/20 text-white/40 hover:text-white/70 text-[10px]"
+      >
+        + Add stop
+      </button>
+      <div className="grid grid-cols-2 gap-1.5 bg-white/5 rounded-lg p-1.5">
+        {GRADIENT_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.stops)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5 text-left"
+          >
+            <span className="w-6 h-2 shrink-0 rounded-full" style={{ background: cssGradient(preset.stops) }} />
+            <span className="truncate">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
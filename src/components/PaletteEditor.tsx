@@ -0,0 +1,66 @@
+import { PALETTE_PRESETS } from '../utils/colorPresets';
+
+interface PaletteEditorProps {
+  palette: string[];
+  onChange: (palette: string[]) => void;
+}
+
+/** Editable swatch row plus palette presets for quantized color output */
+export default function PaletteEditor({ palette, onChange }: PaletteEditorProps) {
+  const setColor = (index: number, color: string) => {
+    onChange(palette.map((c, i) => (i === index ? color : c)));
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-white/50 text-[10px]">Palette</span>
+      <div className="flex flex-wrap gap-1">
+        {palette.map((color, i) => (
+          <div key={i} className="relative group">
+            <label
+              className="block w-5 h-5 rounded cursor-pointer border border-white/10 overflow-hidden"
+              style={{ backgroundColor: color }}
+            >
+              <input
+                type="color"
+                value={color}
+                onChange={e => setColor(i, e.target.value)}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              />
+            </label>
+            {palette.length > 1 && (
+              <button
+                onClick={() => onChange(palette.filter((_, j) => j !== i))}
+                className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-zinc-700 text-white/70 text-[8px] leading-none hidden group-hover:block"
+              >
+                x
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...palette, palette[palette.length - 1] ?? '#ffffff'])}
+          className="w-5 h-5 rounded border border-dashed border-white/20 text-white/40 hover:text-white/70 text-[10px] leading-none"
+        >
+          +
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 bg-white/5 rounded-lg p-1.5">
+        {PALETTE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.colors)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5 text-left"
+          >
+            <span className="flex items-center shrink-0">
+              {preset.colors.slice(0, 4).map(c => (
+                <span key={c} className="w-1.5 h-2 first:rounded-l-full last:rounded-r-full" style={{ backgroundColor: c }} />
+              ))}
+            </span>
+            <span className="truncate">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
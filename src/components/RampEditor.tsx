@@ -0,0 +1,95 @@
+import type { RampStep, ShapeRamp } from '../types';
+import { RAMP_PRESETS } from '../utils/shapeRamps';
+import { STEP_GLYPHS } from '../engine/textExport';
+import { Toggle } from './controls';
+
+interface RampEditorProps {
+  ramp: ShapeRamp;
+  hasCustomSvg: boolean;
+  onChange: (ramp: ShapeRamp) => void;
+}
+
+const STEP_SHAPES: { value: RampStep['shape']; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'square', label: 'Square' },
+  { value: 'triangle-up', label: 'Triangle' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'star', label: 'Star' },
+  { value: 'diamond', label: 'Diamond' },
+  { value: 'cross', label: 'Cross' },
+  { value: 'ring', label: 'Ring' },
+  { value: 'rounded-square', label: 'Rounded' },
+  { value: 'heart', label: 'Heart' },
+  { value: 'line', label: 'Line' },
+  { value: 'text', label: 'Char' },
+  { value: 'custom', label: 'SVG' },
+];
+
+/** Short preview of a ramp: characters as typed, shapes as symbols */
+function rampPreview(steps: RampStep[]): string {
+  return steps.map(step => (step.shape === 'text' ? step.char || '·' : STEP_GLYPHS[step.shape])).join('');
+}
+
+/** Ordered shape or character per brightness band, darkest first, plus ramp presets */
+export default function RampEditor({ ramp, hasCustomSvg, onChange }: RampEditorProps) {
+  const updateStep = (index: number, step: Partial<RampStep>) => {
+    onChange({ ...ramp, steps: ramp.steps.map((s, i) => (i === index ? { ...s, ...step } : s)) });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-white/50 text-[10px]">Ramp (dark to light)</span>
+      {ramp.steps.map((step, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="w-4 text-right text-white/30 tabular-nums text-[10px]">{i + 1}</span>
+          <select
+            value={step.shape}
+            onChange={e => updateStep(i, { shape: e.target.value as RampStep['shape'] })}
+            className="flex-1 bg-zinc-800 border border-white/10 rounded px-1 py-0.5 text-white/70 text-[10px] focus:outline-none focus:border-white/30"
+          >
+            {STEP_SHAPES.filter(s => s.value !== 'custom' || hasCustomSvg || step.shape === 'custom').map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+          {step.shape === 'text' && (
+            <input
+              type="text"
+              value={step.char}
+              // Take the last typed character (supports multi-byte unicode via spread)
+              onChange={e => updateStep(i, { char: [...e.target.value].pop() ?? '' })}
+              placeholder="space"
+              className="w-12 bg-zinc-800 border border-white/10 rounded px-1 py-0.5 text-white text-[10px] text-center focus:outline-none focus:border-white/30"
+            />
+          )}
+          <button
+            onClick={() => onChange({ ...ramp, steps: ramp.steps.filter((_, j) => j !== i) })}
+            disabled={ramp.steps.length <= 1}
+            className="w-3 text-[10px] text-white/40 hover:text-white/70 disabled:text-white/10 disabled:cursor-not-allowed"
+          >
+            x
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange({ ...ramp, steps: [...ramp.steps, ramp.steps[ramp.steps.length - 1] ?? { shape: 'circle', char: '' }] })}
+        disabled={ramp.steps.length >= 32}
+        className="w-full py-1 rounded border border-dashed border-white/20 text-white/40 hover:text-white/70 disabled:text-white/10 text-[10px]"
+      >
+        + Add step
+      </button>
+      <Toggle label="Scale Within Band" checked={ramp.scale} onChange={scale => onChange({ ...ramp, scale })} />
+      <div className="grid grid-cols-2 gap-1.5 bg-white/5 rounded-lg p-1.5">
+        {RAMP_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.ramp)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5 text-left"
+          >
+            <span className="shrink-0 font-mono text-white/40 whitespace-pre">{rampPreview(preset.ramp.steps).slice(-4)}</span>
+            <span className="truncate">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
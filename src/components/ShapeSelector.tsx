@@ -1,5 +1,9 @@
 import { useRef, useState } from 'react';
-import type { ShapeType } from '../types';
+import type { ParametricShape, ShapeParams, ShapeType } from '../types';
+import { importSvgShape } from '../engine/svgImport';
+import { PARAMETRIC_SHAPES, isParametricShape, traceParametric } from '../engine/shapeGeometry';
+import { SvgPathSink } from '../engine/svgExport';
+import { Slider } from './controls';
 
 interface ShapeSelectorProps {
   selected: ShapeType;
@@ -8,9 +12,30 @@ interface ShapeSelectorProps {
   hasCustomSvg: boolean;
   customTextChar: string;
   onCustomTextCharChange: (char: string) => void;
+  shapeParams: ShapeParams;
+  onShapeParamsChange: (params: ShapeParams) => void;
 }
 
-const SHAPES: { value: ShapeType; icon: (s: number) => React.ReactNode }[] = [
+/** Outline of a parametric shape filling an s × s icon, with the current parameters */
+function parametricIcon(shape: ParametricShape, s: number, params: ShapeParams): React.ReactNode {
+  const d: string[] = [];
+  traceParametric(new SvgPathSink(d, v => String(+v.toFixed(2))), shape, s / 2, s / 2, s * 0.42, 0, params);
+  return <path d={d.join('')} />;
+}
+
+// Which parameters each parametric shape reads
+const SHAPE_PARAMS: Record<ParametricShape, (keyof ShapeParams)[]> = {
+  polygon: ['sides'],
+  star: ['sides', 'innerRadius'],
+  diamond: [],
+  cross: ['thickness'],
+  ring: ['thickness'],
+  'rounded-square': ['cornerRadius'],
+  heart: [],
+  line: ['thickness'],
+};
+
+const SHAPES: { value: ShapeType; icon: (s: number, params: ShapeParams) => React.ReactNode }[] = [
   {
     value: 'circle',
     icon: (s) => {
@@ -32,6 +57,10 @@ const SHAPES: { value: ShapeType; icon: (s: number) => React.ReactNode }[] = [
       return <polygon points={`${c},${c - r} ${c - tri},${c + r} ${c + tri},${c + r}`} />;
     },
   },
+  ...PARAMETRIC_SHAPES.map(value => ({
+    value,
+    icon: (s: number, params: ShapeParams) => parametricIcon(value, s, params),
+  })),
   {
     value: 'text',
     icon: (s) => {
@@ -56,42 +85,27 @@ const SHAPES: { value: ShapeType; icon: (s: number) => React.ReactNode }[] = [
       );
     },
   },
+  {
+    value: 'ramp',
+    icon: (s) => {
+      const y = s * 0.6;
+      return (
+        <>
+          <circle cx={s * 0.14} cy={y} r={s * 0.06} />
+          <circle cx={s * 0.4} cy={y} r={s * 0.12} />
+          <rect x={s * 0.64} y={y - s * 0.2} width={s * 0.34} height={s * 0.34} />
+        </>
+      );
+    },
+  },
 ];
 
-function parseSvgFile(svgText: string): { pathData: string; viewBox: { width: number; height: number } } | null {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(svgText, 'image/svg+xml');
-  const svg = doc.querySelector('svg');
-  if (!svg) return null;
-
-  const vb = svg.getAttribute('viewBox');
-  let width = 24;
-  let height = 24;
-  if (vb) {
-    const parts = vb.split(/[\s,]+/).map(Number);
-    if (parts.length >= 4) {
-      width = parts[2];
-      height = parts[3];
-    }
-  } else {
-    const w = svg.getAttribute('width');
-    const h = svg.getAttribute('height');
-    if (w) width = parseFloat(w);
-    if (h) height = parseFloat(h);
-  }
-
-  const path = doc.querySelector('path');
-  if (!path) return null;
-
-  const d = path.getAttribute('d');
-  if (!d) return null;
-
-  return { pathData: d, viewBox: { width, height } };
-}
-
-export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, hasCustomSvg, customTextChar, onCustomTextCharChange }: ShapeSelectorProps) {
+export default function ShapeSelector({
+  selected, onSelect, onCustomSvgUpload, hasCustomSvg, customTextChar, onCustomTextCharChange, shapeParams, onShapeParamsChange,
+}: ShapeSelectorProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [textInput, setTextInput] = useState(customTextChar);
+  const [svgError, setSvgError] = useState<string | null>(null);
 
   const handleSvgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -99,9 +113,12 @@ export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, h
     const reader = new FileReader();
     reader.onload = () => {
       if (typeof reader.result !== 'string') return;
-      const parsed = parseSvgFile(reader.result);
-      if (parsed) {
-        onCustomSvgUpload(parsed.pathData, parsed.viewBox);
+      try {
+        const imported = importSvgShape(reader.result);
+        onCustomSvgUpload(imported.pathData, imported.viewBox);
+        setSvgError(imported.skipped.length > 0 ? `Skipped unsupported: ${imported.skipped.join(', ')}` : null);
+      } catch (err) {
+        setSvgError(err instanceof Error ? err.message : 'Could not read SVG');
       }
     };
     reader.readAsText(file);
@@ -120,6 +137,10 @@ export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, h
     }
   };
 
+  const setParam = <K extends keyof ShapeParams>(key: K, value: ShapeParams[K]) => {
+    onShapeParamsChange({ ...shapeParams, [key]: value });
+  };
+
   const SIZE = 32;
 
   return (
@@ -131,11 +152,12 @@ export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, h
         className="hidden"
         onChange={handleSvgUpload}
       />
-      <div className="grid grid-cols-5 gap-1 bg-zinc-800/50 rounded-lg p-0.5">
+      <div className="grid grid-cols-7 gap-1 bg-zinc-800/50 rounded-lg p-0.5">
         {SHAPES.map(s => (
           <button
             key={s.value}
             onClick={() => {
+              setSvgError(null);
               if (s.value === 'custom' && !hasCustomSvg) {
                 fileInputRef.current?.click();
               } else {
@@ -150,12 +172,60 @@ export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, h
             title={s.value}
           >
             <svg width={16} height={16} viewBox={`0 0 ${SIZE} ${SIZE}`} fill="currentColor">
-              {s.icon(SIZE)}
+              {s.icon(SIZE, shapeParams)}
             </svg>
           </button>
         ))}
       </div>
 
+      {isParametricShape(selected) && SHAPE_PARAMS[selected].length > 0 && (
+        <div className="mt-3 space-y-3">
+          {SHAPE_PARAMS[selected].includes('sides') && (
+            <Slider
+              label={selected === 'star' ? 'Points' : 'Sides'}
+              value={shapeParams.sides}
+              min={3}
+              max={12}
+              step={1}
+              onChange={v => setParam('sides', v)}
+            />
+          )}
+          {SHAPE_PARAMS[selected].includes('innerRadius') && (
+            <Slider
+              label="Inner Radius"
+              value={Math.round(shapeParams.innerRadius * 100)}
+              min={10}
+              max={90}
+              step={1}
+              onChange={v => setParam('innerRadius', v / 100)}
+              format={v => `${v}%`}
+            />
+          )}
+          {SHAPE_PARAMS[selected].includes('thickness') && (
+            <Slider
+              label="Thickness"
+              value={Math.round(shapeParams.thickness * 100)}
+              min={5}
+              max={selected === 'ring' ? 50 : 90}
+              step={1}
+              onChange={v => setParam('thickness', v / 100)}
+              format={v => `${v}%`}
+            />
+          )}
+          {SHAPE_PARAMS[selected].includes('cornerRadius') && (
+            <Slider
+              label="Corner Radius"
+              value={Math.round(shapeParams.cornerRadius * 100)}
+              min={0}
+              max={100}
+              step={1}
+              onChange={v => setParam('cornerRadius', v / 100)}
+              format={v => `${v}%`}
+            />
+          )}
+        </div>
+      )}
+
       {/* Text character input */}
       {selected === 'text' && (
         <div className="mt-2">
@@ -172,12 +242,19 @@ export default function ShapeSelector({ selected, onSelect, onCustomSvgUpload, h
 
       {hasCustomSvg && selected === 'custom' && (
         <button
-          onClick={() => fileInputRef.current?.click()}
+          onClick={() => {
+            setSvgError(null);
+            fileInputRef.current?.click();
+          }}
           className="mt-1.5 w-full text-[10px] text-white/40 hover:text-white/60 transition-colors"
         >
           Replace SVG
         </button>
       )}
+
+      {svgError && (
+        <p className="mt-1.5 text-[10px] text-red-400/80">{svgError}</p>
+      )}
     </div>
   );
 }
@@ -1,7 +1,19 @@
-import type { AppState, ShapeType, GridSettings, BrightnessMapping, ColorSettings, MediaType, MediaTransform, Obj3dSettings } from '../types';
+import { useState } from 'react';
+import type { AppState, ShapeType, ShapeParams, ShapeRamp, OutlineSettings, GridSettings, LineScreenSettings, BrightnessMapping, ColorSettings, SeparationSettings, RenderBackend, MediaType, MediaTransform, Obj3dSettings } from '../types';
 import { COLOR_PRESETS } from '../utils/colorPresets';
+import { isRadialLayout } from '../engine/layouts';
+import { SEPARATION_INKS } from '../engine/separations';
+import { getWebGLFallbackReason } from '../engine/webglRenderer';
 import ImageUploadZone from './ImageUploadZone';
 import ShapeSelector from './ShapeSelector';
+import PaletteEditor from './PaletteEditor';
+import GradientEditor from './GradientEditor';
+import RampEditor from './RampEditor';
+import ToneEditor from './ToneEditor';
+import AnimationExportPanel from './AnimationExportPanel';
+import type { AnimationExportSettings } from './AnimationExportPanel';
+import type { ImageExportFormat } from './ExportDialog';
+import { SectionLabel, Segmented, Slider, Toggle } from './controls';
 
 interface SidebarProps {
   state: AppState;
@@ -10,70 +22,41 @@ interface SidebarProps {
   onShapeChange: (shape: ShapeType) => void;
   onCustomSvgUpload: (pathData: string, viewBox: { width: number; height: number }) => void;
   onCustomTextCharChange: (char: string) => void;
+  onShapeParamsChange: (params: ShapeParams) => void;
+  onShapeRampChange: (ramp: ShapeRamp) => void;
+  onOutlineChange: (outline: OutlineSettings) => void;
   onGridChange: (grid: GridSettings) => void;
+  onLineScreenChange: (lineScreen: LineScreenSettings) => void;
   onMappingChange: (mapping: BrightnessMapping) => void;
   onColorsChange: (colors: ColorSettings) => void;
+  onSeparationChange: (separation: SeparationSettings) => void;
+  onBackendChange: (backend: RenderBackend) => void;
   onMediaTransformChange: (mt: MediaTransform) => void;
   onObj3dChange: (obj3d: Obj3dSettings) => void;
   onDownloadPng: () => void;
-  onDownloadSvg: () => void;
-}
-
-function SectionLabel({ children }: { children: React.ReactNode }) {
-  return <div className="text-[10px] uppercase tracking-widest text-white/30 mb-2">{children}</div>;
-}
-
-function Slider({ label, value, min, max, step, onChange, format }: {
-  label: string;
-  value: number;
-  min: number;
-  max: number;
-  step: number;
-  onChange: (v: number) => void;
-  format?: (v: number) => string;
-}) {
-  return (
-    <div className="flex flex-col gap-1">
-      <div className="flex justify-between">
-        <span className="text-white/50 text-[10px]">{label}</span>
-        <span className="text-white/70 tabular-nums text-[10px]">{format ? format(value) : value}</span>
-      </div>
-      <input
-        type="range"
-        min={min}
-        max={max}
-        step={step}
-        value={value}
-        onChange={e => onChange(Number(e.target.value))}
-        className="w-full appearance-none cursor-pointer"
-      />
-    </div>
-  );
-}
-
-function Toggle({ label, checked, onChange }: {
-  label: string;
-  checked: boolean;
-  onChange: (v: boolean) => void;
-}) {
-  return (
-    <label className="flex items-center justify-between cursor-pointer">
-      <span className="text-white/50 text-[10px]">{label}</span>
-      <button
-        onClick={() => onChange(!checked)}
-        className={`relative w-8 h-4 rounded-full transition-colors ${checked ? 'bg-white/30' : ''}`}
-        style={!checked ? { backgroundColor: 'rgba(39, 39, 42, 0.8)' } : undefined}
-      >
-        <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-transform ${checked ? 'left-4' : 'left-0.5'}`} />
-      </button>
-    </label>
-  );
+  onOpenImageExport: (format: ImageExportFormat) => void;
+  onExportAnimation: (settings: AnimationExportSettings) => void;
+  animationExportProgress: number | null;
+  histogram: Uint32Array | null;
 }
 
 export default function Sidebar(props: SidebarProps) {
   const { state } = props;
-  const { mapping, grid, colors, mediaTransform } = state;
+  const { mapping, grid, lineScreen, colors, separation, mediaTransform, outline } = state;
+  const [animationExport, setAnimationExport] = useState<'video' | 'gif' | null>(null);
+  const isAnimated = state.mediaType === 'video' || state.mediaType === 'gif' || state.mediaType === 'obj3d';
+  const hasTextForm = state.shape === 'text' || state.shape === 'ramp';
+  const webglFallback = state.backend === 'webgl' ? getWebGLFallbackReason(state) : null;
 
+  const updateGrid = <K extends keyof GridSettings>(key: K, val: GridSettings[K]) => {
+    props.onGridChange({ ...grid, [key]: val });
+  };
+  const updateLineScreen = <K extends keyof LineScreenSettings>(key: K, val: LineScreenSettings[K]) => {
+    props.onLineScreenChange({ ...lineScreen, [key]: val });
+  };
+  const updateOutline = <K extends keyof OutlineSettings>(key: K, val: OutlineSettings[K]) => {
+    props.onOutlineChange({ ...outline, [key]: val });
+  };
   const updateMapping = <K extends keyof BrightnessMapping>(key: K, val: BrightnessMapping[K]) => {
     props.onMappingChange({ ...mapping, [key]: val });
   };
@@ -121,11 +104,67 @@ export default function Sidebar(props: SidebarProps) {
             hasCustomSvg={!!state.customSvgPath}
             customTextChar={state.customTextChar}
             onCustomTextCharChange={props.onCustomTextCharChange}
+            shapeParams={state.shapeParams}
+            onShapeParamsChange={props.onShapeParamsChange}
           />
+          {state.shape === 'ramp' && (
+            <div className="mt-3">
+              <RampEditor
+                ramp={state.shapeRamp}
+                hasCustomSvg={!!state.customSvgPath}
+                onChange={props.onShapeRampChange}
+              />
+            </div>
+          )}
+          <div className="mt-3 space-y-3">
+            <Segmented
+              label="Outline"
+              value={outline.mode}
+              options={[
+                { value: 'off', label: 'Fill' },
+                { value: 'weight', label: 'Weight' },
+                { value: 'size', label: 'Size' },
+              ]}
+              onChange={v => updateOutline('mode', v)}
+            />
+            {outline.mode !== 'off' && (
+              <>
+                <Slider
+                  label={outline.mode === 'weight' ? 'Max Stroke' : 'Stroke'}
+                  value={outline.width}
+                  min={0.5}
+                  max={20}
+                  step={0.5}
+                  onChange={v => updateOutline('width', v)}
+                  format={v => `${v}px`}
+                />
+                <Segmented
+                  label="Cap"
+                  value={outline.cap}
+                  options={[
+                    { value: 'butt', label: 'Butt' },
+                    { value: 'round', label: 'Round' },
+                    { value: 'square', label: 'Square' },
+                  ]}
+                  onChange={v => updateOutline('cap', v)}
+                />
+                <Segmented
+                  label="Join"
+                  value={outline.join}
+                  options={[
+                    { value: 'miter', label: 'Miter' },
+                    { value: 'round', label: 'Round' },
+                    { value: 'bevel', label: 'Bevel' },
+                  ]}
+                  onChange={v => updateOutline('join', v)}
+                />
+              </>
+            )}
+          </div>
         </div>
 
         {/* Grid */}
-        <div className="px-4 py-3 border-b border-white/10">
+        <div className="px-4 py-3 border-b border-white/10 space-y-3">
           <SectionLabel>Grid</SectionLabel>
           <Slider
             label="Density"
@@ -133,28 +172,152 @@ export default function Sidebar(props: SidebarProps) {
             min={5}
             max={100}
             step={1}
-            onChange={v => props.onGridChange({ density: v })}
+            onChange={v => updateGrid('density', v)}
             format={v => `${v}px`}
           />
+          <Segmented
+            label="Line Screen"
+            value={lineScreen.pattern}
+            options={[
+              { value: 'off', label: 'Off' },
+              { value: 'lines', label: 'Lines' },
+              { value: 'waves', label: 'Waves' },
+              { value: 'circles', label: 'Circles' },
+            ]}
+            onChange={v => updateLineScreen('pattern', v)}
+          />
+          {lineScreen.pattern === 'off' && (
+            <>
+              <Segmented
+                label="Lattice"
+                value={grid.layout}
+                options={[
+                  { value: 'square', label: 'Square' },
+                  { value: 'hex', label: 'Hex' },
+                  { value: 'brick', label: 'Brick' },
+                  { value: 'diamond', label: 'Diamond' },
+                ]}
+                onChange={v => updateGrid('layout', v)}
+              />
+              <Segmented
+                label="Radial"
+                value={grid.layout}
+                options={[
+                  { value: 'concentric', label: 'Rings' },
+                  { value: 'spiral', label: 'Spiral' },
+                  { value: 'phyllotaxis', label: 'Phyllotaxis' },
+                ]}
+                onChange={v => updateGrid('layout', v)}
+              />
+            </>
+          )}
+          {lineScreen.pattern === 'waves' && (
+            <>
+              <Slider
+                label="Amplitude"
+                value={lineScreen.amplitude}
+                min={0}
+                max={2}
+                step={0.05}
+                onChange={v => updateLineScreen('amplitude', v)}
+                format={v => `${v.toFixed(2)}×`}
+              />
+              <Slider
+                label="Wavelength"
+                value={lineScreen.wavelength}
+                min={2}
+                max={20}
+                step={0.5}
+                onChange={v => updateLineScreen('wavelength', v)}
+                format={v => `${v}×`}
+              />
+            </>
+          )}
+          {(lineScreen.pattern === 'off' ? isRadialLayout(grid.layout) : lineScreen.pattern === 'circles') && (
+            <>
+              <Slider
+                label="Center X"
+                value={Math.round(grid.center.x * 100)}
+                min={0}
+                max={100}
+                step={1}
+                onChange={v => updateGrid('center', { ...grid.center, x: v / 100 })}
+                format={v => `${v}%`}
+              />
+              <Slider
+                label="Center Y"
+                value={Math.round(grid.center.y * 100)}
+                min={0}
+                max={100}
+                step={1}
+                onChange={v => updateGrid('center', { ...grid.center, y: v / 100 })}
+                format={v => `${v}%`}
+              />
+            </>
+          )}
+          {separation.mode === 'off' && (
+            <Slider
+              label="Screen Angle"
+              value={grid.angle}
+              min={0}
+              max={90}
+              step={1}
+              onChange={v => updateGrid('angle', v)}
+              format={v => `${v}°`}
+            />
+          )}
         </div>
 
         {/* Brightness Mapping */}
         <div className="px-4 py-3 border-b border-white/10 space-y-3">
           <SectionLabel>Brightness</SectionLabel>
+          <Segmented
+            label="Source"
+            value={mapping.source}
+            options={[
+              { value: 'luminance', label: 'Luminance' },
+              { value: 'edges', label: 'Edges' },
+            ]}
+            onChange={v => updateMapping('source', v)}
+          />
+          {mapping.source === 'edges' && (
+            <>
+              <Slider
+                label="Edge Threshold"
+                value={mapping.edgeThreshold}
+                min={0}
+                max={100}
+                step={1}
+                onChange={v => updateMapping('edgeThreshold', v)}
+                format={v => `${v}%`}
+              />
+              <Slider
+                label="Edge Blur"
+                value={mapping.edgeBlur}
+                min={0}
+                max={10}
+                step={0.5}
+                onChange={v => updateMapping('edgeBlur', v)}
+                format={v => `${v}px`}
+              />
+            </>
+          )}
           <Toggle
             label="Invert"
             checked={mapping.invert}
             onChange={v => updateMapping('invert', v)}
           />
-          <Slider
-            label="Min Size"
-            value={mapping.minSize}
-            min={0}
-            max={100}
-            step={1}
-            onChange={v => updateMapping('minSize', v)}
-            format={v => `${v}%`}
-          />
+          {mapping.dither === 'none' && (
+            <Slider
+              label="Min Size"
+              value={mapping.minSize}
+              min={0}
+              max={100}
+              step={1}
+              onChange={v => updateMapping('minSize', v)}
+              format={v => `${v}%`}
+            />
+          )}
           <Slider
             label="Max Size"
             value={mapping.maxSize}
@@ -181,6 +344,50 @@ export default function Sidebar(props: SidebarProps) {
             step={1}
             onChange={v => updateMapping('brightness', v)}
           />
+          {mapping.source === 'luminance' && (
+            <Segmented
+              label="Sampling"
+              value={mapping.sampling}
+              options={[
+                { value: 'point', label: 'Point' },
+                { value: 'area', label: 'Area' },
+                { value: 'gaussian', label: 'Gaussian' },
+              ]}
+              onChange={v => updateMapping('sampling', v)}
+            />
+          )}
+          <Segmented
+            label="Dither"
+            value={mapping.dither}
+            options={[
+              { value: 'none', label: 'Off' },
+              { value: 'floyd-steinberg', label: 'Floyd' },
+              { value: 'atkinson', label: 'Atkinson' },
+              { value: 'jarvis', label: 'Jarvis' },
+            ]}
+            onChange={v => updateMapping('dither', v)}
+          />
+          <Segmented
+            label="Ordered"
+            value={mapping.dither}
+            options={[
+              { value: 'bayer2', label: 'Bayer 2' },
+              { value: 'bayer4', label: 'Bayer 4' },
+              { value: 'bayer8', label: 'Bayer 8' },
+            ]}
+            onChange={v => updateMapping('dither', v)}
+          />
+        </div>
+
+        {/* Tone */}
+        <div className="px-4 py-3 border-b border-white/10">
+          <SectionLabel>Tone</SectionLabel>
+          <ToneEditor
+            levels={mapping.levels}
+            curve={mapping.curve}
+            histogram={props.histogram}
+            onChange={tone => props.onMappingChange({ ...mapping, ...tone })}
+          />
         </div>
 
         {/* Media Transform */}
@@ -242,76 +449,176 @@ export default function Sidebar(props: SidebarProps) {
           </div>
         )}
 
-        {/* Output (Colors) */}
+        {/* Separations */}
         <div className="px-4 py-3 border-b border-white/10 space-y-3">
-          <SectionLabel>Output</SectionLabel>
-          <div className="flex gap-2">
-            <div className="flex-1 space-y-1">
-              <span className="text-white/50 text-[10px]">Foreground</span>
-              <label className="block relative w-full h-8 rounded-lg cursor-pointer border border-white/10 overflow-hidden" style={{ backgroundColor: colors.foreground }}>
-                <input
-                  type="color"
-                  value={colors.foreground}
-                  onChange={e => props.onColorsChange({ ...colors, foreground: e.target.value })}
-                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                />
-              </label>
+          <SectionLabel>Separations</SectionLabel>
+          <Segmented
+            label="Channels"
+            value={separation.mode}
+            options={[
+              { value: 'off', label: 'Off' },
+              { value: 'cmyk', label: 'CMYK' },
+              { value: 'rgb', label: 'RGB' },
+            ]}
+            onChange={v => props.onSeparationChange({ ...separation, mode: v })}
+          />
+          {separation.mode !== 'off' && SEPARATION_INKS[separation.mode].map(({ channel, label }) => (
+            <Slider
+              key={channel}
+              label={`${label} Angle`}
+              value={separation.angles[channel]}
+              min={0}
+              max={90}
+              step={1}
+              onChange={v => props.onSeparationChange({ ...separation, angles: { ...separation.angles, [channel]: v } })}
+              format={v => `${v}°`}
+            />
+          ))}
+        </div>
+
+        {/* Output (Colors) */}
+        {separation.mode === 'off' && (
+          <div className="px-4 py-3 border-b border-white/10 space-y-3">
+            <SectionLabel>Output</SectionLabel>
+            <Segmented
+              label="Fill"
+              value={colors.mode}
+              options={[
+                { value: 'foreground', label: 'Foreground' },
+                { value: 'source', label: 'Source' },
+                { value: 'palette', label: 'Palette' },
+                { value: 'gradient', label: 'Gradient' },
+              ]}
+              onChange={v => props.onColorsChange({ ...colors, mode: v })}
+            />
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-1">
+                <span className="text-white/50 text-[10px]">Foreground</span>
+                <label className="block relative w-full h-8 rounded-lg cursor-pointer border border-white/10 overflow-hidden" style={{ backgroundColor: colors.foreground }}>
+                  <input
+                    type="color"
+                    value={colors.foreground}
+                    onChange={e => props.onColorsChange({ ...colors, foreground: e.target.value })}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                </label>
+              </div>
+              <div className="flex-1 space-y-1">
+                <span className="text-white/50 text-[10px]">Background</span>
+                <label className="block relative w-full h-8 rounded-lg cursor-pointer border border-white/10 overflow-hidden" style={{ backgroundColor: colors.background }}>
+                  <input
+                    type="color"
+                    value={colors.background}
+                    onChange={e => props.onColorsChange({ ...colors, background: e.target.value })}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                </label>
+              </div>
             </div>
-            <div className="flex-1 space-y-1">
-              <span className="text-white/50 text-[10px]">Background</span>
-              <label className="block relative w-full h-8 rounded-lg cursor-pointer border border-white/10 overflow-hidden" style={{ backgroundColor: colors.background }}>
-                <input
-                  type="color"
-                  value={colors.background}
-                  onChange={e => props.onColorsChange({ ...colors, background: e.target.value })}
-                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                />
-              </label>
+            {colors.mode === 'palette' && (
+              <PaletteEditor
+                palette={colors.palette}
+                onChange={palette => props.onColorsChange({ ...colors, palette })}
+              />
+            )}
+            {colors.mode === 'gradient' && (
+              <GradientEditor
+                stops={colors.gradient}
+                onChange={gradient => props.onColorsChange({ ...colors, gradient })}
+              />
+            )}
+            <div className="space-y-1.5">
+              <span className="text-white/50 text-[10px]">Presets</span>
+              <div className="grid grid-cols-2 gap-1.5 bg-white/5 rounded-lg p-1.5">
+                {COLOR_PRESETS.map(preset => (
+                  <button
+                    key={preset.name}
+                    onClick={() => props.onColorsChange({ ...colors, background: preset.background, foreground: preset.foreground })}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5 text-left"
+                  >
+                    <span className="flex items-center gap-0.5 shrink-0">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: preset.foreground }} />
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: preset.background }} />
+                    </span>
+                    <span className="truncate">{preset.name}</span>
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
-          <div className="space-y-1.5">
-            <span className="text-white/50 text-[10px]">Presets</span>
-            <div className="grid grid-cols-2 gap-1.5 bg-white/5 rounded-lg p-1.5">
-              {COLOR_PRESETS.map(preset => (
-                <button
-                  key={preset.name}
-                  onClick={() => props.onColorsChange({ background: preset.background, foreground: preset.foreground })}
-                  className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-white/60 hover:bg-white/10 transition-colors border border-white/5 text-left"
-                >
-                  <span className="flex items-center gap-0.5 shrink-0">
-                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: preset.foreground }} />
-                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: preset.background }} />
-                  </span>
-                  <span className="truncate">{preset.name}</span>
-                </button>
-              ))}
+        )}
+
+        {/* Preview */}
+        <div className="px-4 py-3 border-b border-white/10 space-y-3">
+          <SectionLabel>Preview</SectionLabel>
+          <Segmented
+            label="Renderer"
+            value={state.backend}
+            options={[
+              { value: 'canvas', label: 'Canvas 2D' },
+              { value: 'webgl', label: 'WebGL' },
+            ]}
+            onChange={props.onBackendChange}
+          />
+          {webglFallback && (
+            <div className="text-white/30 text-[10px] leading-relaxed">
+              Drawing with Canvas 2D: WebGL does not support {webglFallback}
             </div>
-          </div>
+          )}
         </div>
 
         {/* Export */}
         <div className="px-4 py-3 border-b border-white/10">
           <SectionLabel>Export</SectionLabel>
-          <div className="flex gap-2">
-            <button
-              onClick={props.onDownloadPng}
-              className="flex-1 px-2 py-1.5 bg-zinc-800 text-white/70 text-[10px] rounded-lg border border-white/10 hover:bg-zinc-700 transition-colors"
-            >
-              PNG
-            </button>
-            <button
-              onClick={props.onDownloadSvg}
-              className="flex-1 px-2 py-1.5 bg-zinc-800 text-white/70 text-[10px] rounded-lg border border-white/10 hover:bg-zinc-700 transition-colors"
-            >
-              SVG
-            </button>
+          <div className="grid grid-cols-3 gap-2">
+            {(['png', 'svg', 'pdf', 'plot'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => props.onOpenImageExport(format)}
+                className="px-2 py-1.5 bg-zinc-800 text-white/70 text-[10px] rounded-lg border border-white/10 hover:bg-zinc-700 transition-colors"
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
             <button
-              disabled
-              className="flex-1 px-2 py-1.5 bg-zinc-900 text-white/25 text-[10px] rounded-lg border border-white/5 cursor-not-allowed"
+              disabled={!hasTextForm}
+              onClick={() => props.onOpenImageExport('text')}
+              title={hasTextForm ? undefined : 'Needs the character shape or a shape ramp'}
+              className={`px-2 py-1.5 text-[10px] rounded-lg border transition-colors ${
+                hasTextForm
+                  ? 'bg-zinc-800 text-white/70 border-white/10 hover:bg-zinc-700'
+                  : 'bg-zinc-900 text-white/25 border-white/5 cursor-not-allowed'
+              }`}
             >
-              MP4 <span className="text-[8px]">(SOON)</span>
+              TEXT
             </button>
+            {(['gif', 'video'] as const).map(target => (
+              <button
+                key={target}
+                disabled={!isAnimated}
+                onClick={() => setAnimationExport(v => (v === target ? null : target))}
+                className={`px-2 py-1.5 text-[10px] rounded-lg border transition-colors ${
+                  !isAnimated
+                    ? 'bg-zinc-900 text-white/25 border-white/5 cursor-not-allowed'
+                    : animationExport === target
+                      ? 'bg-zinc-700 text-white border-white/20'
+                      : 'bg-zinc-800 text-white/70 border-white/10 hover:bg-zinc-700'
+                }`}
+              >
+                {target.toUpperCase()}
+              </button>
+            ))}
           </div>
+          {isAnimated && animationExport && (
+            <AnimationExportPanel
+              key={animationExport}
+              target={animationExport}
+              mediaType={state.mediaType}
+              autoRotate={state.obj3d.autoRotate}
+              progress={props.animationExportProgress}
+              onExport={props.onExportAnimation}
+            />
+          )}
         </div>
 
         {/* Footer */}
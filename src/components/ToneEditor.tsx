@@ -0,0 +1,195 @@
+import { useMemo, useRef, useState } from 'react';
+import type { CurvePoint, ToneLevels } from '../types';
+import { DEFAULT_STATE } from '../types';
+import { applyLevels, curveInterpolator } from '../engine/toneCurve';
+import { Slider } from './controls';
+
+interface ToneEditorProps {
+  levels: ToneLevels;
+  curve: CurvePoint[];
+  histogram: Uint32Array | null;
+  onChange: (tone: { levels: ToneLevels; curve: CurvePoint[] }) => void;
+}
+
+// Samples along the drawn curve
+const CURVE_STEPS = 64;
+// Closest two points may get on the x axis
+const MIN_GAP = 0.02;
+// Hit radius for points, in curve units
+const HIT_RADIUS = 0.05;
+
+/**
+ * Tone curve over the live histogram plus levels sliders. Drag points to
+ * shape the curve, click empty space to add one, double-click to remove it;
+ * the end points only move vertically.
+ */
+export default function ToneEditor({ levels, curve, histogram, onChange }: ToneEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const setCurve = (next: CurvePoint[]) => onChange({ levels, curve: next });
+  const setLevel = <K extends keyof ToneLevels>(key: K, value: ToneLevels[K]) => {
+    onChange({ levels: { ...levels, [key]: value }, curve });
+  };
+
+  const curvePath = useMemo(() => {
+    const f = curveInterpolator(curve);
+    const pts: string[] = [];
+    for (let i = 0; i <= CURVE_STEPS; i++) {
+      const x = i / CURVE_STEPS;
+      pts.push(`${x * 100},${(1 - f(x)) * 100}`);
+    }
+    return pts.join(' ');
+  }, [curve]);
+
+  // Whole transfer (levels, then curve) when levels are in use
+  const transferPath = useMemo(() => {
+    const { inBlack, inWhite, gamma, outBlack, outWhite } = levels;
+    if (inBlack === 0 && inWhite === 1 && gamma === 1 && outBlack === 0 && outWhite === 1) return null;
+    const f = curveInterpolator(curve);
+    const pts: string[] = [];
+    for (let i = 0; i <= CURVE_STEPS; i++) {
+      const x = i / CURVE_STEPS;
+      pts.push(`${x * 100},${(1 - f(applyLevels(x, levels))) * 100}`);
+    }
+    return pts.join(' ');
+  }, [levels, curve]);
+
+  const bars = useMemo(() => {
+    if (!histogram) return null;
+    let max = 0;
+    for (const v of histogram) max = Math.max(max, v);
+    if (max === 0) return null;
+    const w = 100 / histogram.length;
+    return Array.from(histogram, (v, i) => {
+      const h = Math.sqrt(v / max) * 100;
+      return <rect key={i} x={i * w} y={100 - h} width={w} height={h} />;
+    });
+  }, [histogram]);
+
+  const toCurve = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = 1 - (e.clientY - rect.top) / rect.height;
+    return { x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) };
+  };
+
+  const moveTo = (index: number, p: CurvePoint, points: CurvePoint[]) => {
+    const last = points.length - 1;
+    const x = index === 0 ? 0 : index === last
+      ? 1
+      : Math.min(points[index + 1].x - MIN_GAP, Math.max(points[index - 1].x + MIN_GAP, p.x));
+    setCurve(points.map((q, i) => (i === index ? { x, y: p.y } : q)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const p = toCurve(e);
+    svgRef.current!.setPointerCapture(e.pointerId);
+    const hit = curve.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) < HIT_RADIUS);
+    if (hit >= 0) {
+      setDragging(hit);
+      return;
+    }
+    // Insert a new point between its neighbours, unless it would crowd them
+    const index = curve.findIndex(q => q.x > p.x);
+    if (index <= 0 || p.x - curve[index - 1].x < MIN_GAP || curve[index].x - p.x < MIN_GAP) return;
+    const next = [...curve.slice(0, index), p, ...curve.slice(index)];
+    setCurve(next);
+    setDragging(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    moveTo(dragging, toCurve(e), curve);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = 1 - (e.clientY - rect.top) / rect.height;
+    const hit = curve.findIndex(q => Math.hypot(q.x - x, q.y - y) < HIT_RADIUS);
+    if (hit > 0 && hit < curve.length - 1) setCurve(curve.filter((_, i) => i !== hit));
+  };
+
+  const reset = () => onChange({ levels: DEFAULT_STATE.mapping.levels, curve: DEFAULT_STATE.mapping.curve });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-white/50 text-[10px]">Curve</span>
+          <button onClick={reset} className="text-white/40 hover:text-white/70 text-[10px]">Reset</button>
+        </div>
+        <div className="relative h-28 rounded-lg bg-white/5 border border-white/10 overflow-hidden">
+          <svg
+            ref={svgRef}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerCancel={() => setDragging(null)}
+            onDoubleClick={handleDoubleClick}
+          >
+            <g fill="rgba(255,255,255,0.12)">{bars}</g>
+            <polyline points="0,100 100,0" fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            {transferPath && (
+              <polyline points={transferPath} fill="none" stroke="rgba(255,255,255,0.35)" strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            )}
+            <polyline points={curvePath} fill="none" stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </svg>
+          {/* Points are HTML so they stay round in the stretched SVG */}
+          {curve.map((p, i) => (
+            <span
+              key={i}
+              className={`absolute w-2 h-2 -ml-1 -mt-1 rounded-full border border-black pointer-events-none ${dragging === i ? 'bg-white' : 'bg-white/70'}`}
+              style={{ left: `${p.x * 100}%`, top: `${(1 - p.y) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+      <Slider
+        label="Input Black"
+        value={Math.round(levels.inBlack * 255)}
+        min={0}
+        max={254}
+        step={1}
+        onChange={v => setLevel('inBlack', Math.min(v / 255, levels.inWhite - 1 / 255))}
+      />
+      <Slider
+        label="Input White"
+        value={Math.round(levels.inWhite * 255)}
+        min={1}
+        max={255}
+        step={1}
+        onChange={v => setLevel('inWhite', Math.max(v / 255, levels.inBlack + 1 / 255))}
+      />
+      <Slider
+        label="Gamma"
+        value={levels.gamma}
+        min={0.1}
+        max={3}
+        step={0.05}
+        onChange={v => setLevel('gamma', v)}
+        format={v => v.toFixed(2)}
+      />
+      <Slider
+        label="Output Black"
+        value={Math.round(levels.outBlack * 255)}
+        min={0}
+        max={255}
+        step={1}
+        onChange={v => setLevel('outBlack', v / 255)}
+      />
+      <Slider
+        label="Output White"
+        value={Math.round(levels.outWhite * 255)}
+        min={0}
+        max={255}
+        step={1}
+        onChange={v => setLevel('outWhite', v / 255)}
+      />
+    </div>
+  );
+}
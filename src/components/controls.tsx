@@ -0,0 +1,113 @@
+export function SectionLabel({ children }: { children: React.ReactNode }) {
+  return <div className="text-[10px] uppercase tracking-widest text-white/30 mb-2">{children}</div>;
+}
+
+export function Slider({ label, value, min, max, step, onChange, format }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (v: number) => void;
+  format?: (v: number) => string;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between">
+        <span className="text-white/50 text-[10px]">{label}</span>
+        <span className="text-white/70 tabular-nums text-[10px]">{format ? format(value) : value}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="w-full appearance-none cursor-pointer"
+      />
+    </div>
+  );
+}
+
+export function Toggle({ label, checked, onChange }: {
+  label: string;
+  checked: boolean;
+  onChange: (v: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between cursor-pointer">
+      <span className="text-white/50 text-[10px]">{label}</span>
+      <button
+        onClick={() => onChange(!checked)}
+        className={`relative w-8 h-4 rounded-full transition-colors ${checked ? 'bg-white/30' : ''}`}
+        style={!checked ? { backgroundColor: 'rgba(39, 39, 42, 0.8)' } : undefined}
+      >
+        <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-transform ${checked ? 'left-4' : 'left-0.5'}`} />
+      </button>
+    </label>
+  );
+}
+
+/** Row of mutually exclusive text buttons, styled like the shape selector */
+export function Segmented<T extends string | number>({ label, value, options, onChange }: {
+  label: string;
+  value: T;
+  options: { value: T; label: string; disabled?: boolean }[];
+  onChange: (v: T) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-white/50 text-[10px]">{label}</span>
+      <div className="flex gap-1 bg-zinc-800/50 rounded-lg p-0.5">
+        {options.map(o => (
+          <button
+            key={String(o.value)}
+            disabled={o.disabled}
+            onClick={() => onChange(o.value)}
+            className={`flex-1 px-1 py-1 rounded-md text-[10px] transition-colors ${
+              value === o.value
+                ? 'bg-white/15 text-white'
+                : o.disabled
+                  ? 'text-white/20 cursor-not-allowed'
+                  : 'text-white/40 hover:text-white/70'
+            }`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NumberField({ label, value, min, max, step, onChange, suffix }: {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  onChange: (v: number) => void;
+  suffix?: string;
+}) {
+  return (
+    <label className="flex flex-col gap-1 min-w-0">
+      <span className="text-white/50 text-[10px]">{label}</span>
+      <span className="flex items-center bg-zinc-800 border border-white/10 rounded focus-within:border-white/30">
+        <input
+          type="number"
+          value={Number.isFinite(value) ? value : ''}
+          min={min}
+          max={max}
+          step={step}
+          onChange={e => {
+            const v = Number(e.target.value);
+            if (e.target.value !== '' && Number.isFinite(v)) onChange(v);
+          }}
+          className="w-full min-w-0 bg-transparent px-2 py-1 text-white text-[11px] tabular-nums focus:outline-none"
+        />
+        {suffix && <span className="pr-2 text-white/30 text-[10px]">{suffix}</span>}
+      </span>
+    </label>
+  );
+}
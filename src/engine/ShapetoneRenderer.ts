@@ -1,7 +1,41 @@
 import type { AppState } from '../types';
-import { getMediaElementFor3D, computeBrightnessGrid, ensureVideoPlaying, advanceGifFrame, isAnimating } from './imageProcessor';
+import { getMediaElementFor3D, ensureVideoPlaying, getVideoTime, seekVideo, seekGif, isAnimating } from './imageProcessor';
 import { has3DObject } from './objectLoader';
-import { drawShape, batchDrawCircles, batchDrawTriangles } from './shapeDrawer';
+import { drawFrameGeometry } from './shapeDrawer';
+import { quantizeColors } from './cells';
+import type { FrameGeometry } from './cells';
+import { hexToRgb } from '../utils/color';
+import { ditherGrid } from './dither';
+import { FrameBuilder } from './frameBuilder';
+import type { FrameWorkerRequest, FrameWorkerResponse } from './frameWorker';
+import { WebGLShapeRenderer, getWebGLFallbackReason } from './webglRenderer';
+import { createPointList, getLayoutPoints } from './layouts';
+import type { SampleSource } from './sampling';
+import { buildSvg } from './svgExport';
+import type { SvgMode } from './svgExport';
+import { buildPdf, getPdfContentBox } from './pdfExport';
+import type { PdfPageOptions } from './pdfExport';
+import { buildPlot } from './plotterExport';
+import type { PlotterOptions } from './plotterExport';
+import { buildText, getTextGridSize, getTextPoints, getTextRamp } from './textExport';
+import type { TextFormat } from './textExport';
+
+// Minimum time between histogram updates (ms)
+const HISTOGRAM_INTERVAL = 200;
+// Cells sampled on the CPU for the histogram while the WebGL backend draws
+const WEBGL_HISTOGRAM_SAMPLES = 4096;
+
+/** Worker that builds and draws preview frames, or null where workers cannot draw */
+function createFrameWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+  try {
+    return new Worker(new URL('./frameWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
 
 export class ShapetoneRenderer {
   private canvas: HTMLCanvasElement;
@@ -10,14 +44,43 @@ export class ShapetoneRenderer {
   private animId = 0;
   private running = false;
   private dirty = true;
+  private time = 0;         // timeline position in seconds
+  private lastTick = 0;
+  private lastHistogram = 0;
+  // Builds frames for exports, and for the preview when there is no worker
+  private builder: FrameBuilder;
+  // Live preview frames are sampled and drawn here, off the main thread
+  private worker: Worker | null;
+  private framePending = false;
+  // Created on first use with the WebGL backend; false once creation failed
+  private webgl: WebGLShapeRenderer | null | false = null;
+  private histogramPoints = createPointList(WEBGL_HISTOGRAM_SAMPLES);
+
+  /** Called with a copy of `histogram` a few times a second while the preview renders */
+  onHistogram: ((bins: Uint32Array) => void) | null = null;
 
   constructor(canvas: HTMLCanvasElement, state: AppState) {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d')!;
     this.state = state;
+    this.builder = new FrameBuilder(state);
+    this.worker = createFrameWorker();
+    if (this.worker) {
+      this.worker.onmessage = this.onWorkerFrame;
+      this.worker.onerror = this.onWorkerError;
+      this.postState();
+    }
     this.resize();
   }
 
+  /**
+   * Brightness histogram of the last computed frame, before levels and curve.
+   * For WebGL frames it is sampled from an evenly spread subset of the cells.
+   */
+  get histogram(): Uint32Array {
+    return this.builder.histogram;
+  }
+
   private getContainerSize(): { width: number; height: number } {
     const parent = this.canvas.parentElement;
     if (parent) {
@@ -40,12 +103,21 @@ export class ShapetoneRenderer {
 
   updateState(state: AppState): void {
     this.state = state;
+    this.builder.updateState(state);
+    this.postState();
     this.dirty = true;
   }
 
+  /** Send the settings to the worker; the source data URL stays on this side */
+  private postState(): void {
+    const request: FrameWorkerRequest = { type: 'state', state: { ...this.state, uploadedImage: null } };
+    this.worker?.postMessage(request);
+  }
+
   start(): void {
     this.running = true;
-    this.loop();
+    this.lastTick = performance.now();
+    this.loop(this.lastTick);
   }
 
   stop(): void {
@@ -56,9 +128,42 @@ export class ShapetoneRenderer {
     }
   }
 
-  private loop = (): void => {
+  /** Stop and release the frame worker; the renderer cannot be restarted */
+  destroy(): void {
+    this.stop();
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.webgl) this.webgl.dispose();
+    this.webgl = null;
+  }
+
+  /** Current timeline position in seconds */
+  get currentTime(): number {
+    return this.time;
+  }
+
+  /** Move the live timeline; playback continues from there once running */
+  seek(time: number): void {
+    this.time = time;
+    if (this.state.mediaType === 'video') {
+      seekVideo(time).then(() => { this.dirty = true; });
+    }
+    this.dirty = true;
+  }
+
+  private loop = (now: number): void => {
     if (!this.running) return;
-    if (this.dirty || this.state.mediaType === 'video' || this.state.mediaType === 'gif' || this.state.mediaType === 'obj3d' || isAnimating()) {
+    const dt = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+    // The turntable only advances while auto-rotating so its pose holds when paused
+    const { mediaType, obj3d } = this.state;
+    if (mediaType === 'gif' || (mediaType === 'obj3d' && obj3d.autoRotate)) {
+      this.time += dt;
+    }
+
+    // One frame in flight at a time; changes made meanwhile are picked up by the next one
+    const changed = this.dirty || mediaType === 'video' || mediaType === 'gif' || mediaType === 'obj3d' || isAnimating();
+    if (changed && !this.framePending) {
       this.dirty = false;
       this.render();
     }
@@ -67,151 +172,288 @@ export class ShapetoneRenderer {
 
   private render(): void {
     const { width: w, height: h } = this.getContainerSize();
-    const { colors, mapping, grid: gridSettings, shape, customSvgPath, customSvgViewBox, view, mediaTransform, obj3d } = this.state;
-    const ctx = this.ctx;
-
-    ctx.fillStyle = colors.background;
-    ctx.fillRect(0, 0, w, h);
 
-    // Advance animated media
+    // Live playback: video plays natively and drives the clock, GIF follows it
     if (this.state.mediaType === 'video') {
       ensureVideoPlaying();
+      this.time = getVideoTime();
     }
     if (this.state.mediaType === 'gif') {
-      advanceGifFrame();
-    }
-
-    const media = getMediaElementFor3D(w, h, obj3d.autoRotate, obj3d.rotationX, obj3d.rotationY);
-    if (!media && !has3DObject()) {
-      if (!this.state.uploadedImage) {
-        ctx.fillStyle = 'rgba(255,255,255,0.15)';
-        ctx.font = '14px "Geist Mono", monospace';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText('Drop an image, video, or 3D object to start', w / 2, h / 2);
-        return;
+      seekGif(this.time);
+    }
+
+    if (this.state.backend === 'webgl' && this.renderWebGL(w, h)) return;
+    if (this.worker) {
+      this.requestFrame(w, h);
+      return;
+    }
+    this.drawFrame(this.ctx, w, h);
+    this.reportHistogram();
+  }
+
+  private reportHistogram(): void {
+    const now = performance.now();
+    if (this.onHistogram && now - this.lastHistogram > HISTOGRAM_INTERVAL) {
+      this.lastHistogram = now;
+      this.onHistogram(this.histogram.slice());
+    }
+  }
+
+  /**
+   * Draw the frame with the WebGL backend and composite it over the
+   * background. False when it cannot draw the settings, there is no media
+   * or WebGL is unavailable; the Canvas 2D path draws instead.
+   */
+  private renderWebGL(w: number, h: number): boolean {
+    if (this.webgl === false || getWebGLFallbackReason(this.state)) return false;
+    const { obj3d } = this.state;
+    const media = getMediaElementFor3D(w, h, this.time, obj3d.rotationX, obj3d.rotationY);
+    if (!media) return false;
+    if (!this.webgl) {
+      try {
+        this.webgl = new WebGLShapeRenderer();
+      } catch {
+        this.webgl = false;
+        return false;
       }
     }
-    if (!media) return;
+    this.webgl.render(media, this.state, w, h, window.devicePixelRatio || 1);
+    this.ctx.fillStyle = this.state.colors.background;
+    this.ctx.fillRect(0, 0, w, h);
+    this.ctx.drawImage(this.webgl.canvas, 0, 0, w, h);
+    this.sampleWebGLHistogram(media, w, h);
+    return true;
+  }
 
-    // Apply zoom/pan transform
-    ctx.save();
-    ctx.translate(view.offsetX, view.offsetY);
-    ctx.scale(view.scale, view.scale);
+  /**
+   * WebGL frames are sampled on the GPU, so the histogram is read on the CPU
+   * from at most WEBGL_HISTOGRAM_SAMPLES cells, only when it is due
+   */
+  private sampleWebGLHistogram(media: SampleSource, w: number, h: number): void {
+    if (!this.onHistogram || performance.now() - this.lastHistogram <= HISTOGRAM_INTERVAL) return;
+    const points = getLayoutPoints(this.state.grid, w, h);
+    const stride = Math.ceil(points.count / WEBGL_HISTOGRAM_SAMPLES);
+    const subset = this.histogramPoints;
+    subset.count = 0;
+    for (let i = 0; i < points.count; i += stride) {
+      subset.x[subset.count] = points.x[i];
+      subset.y[subset.count] = points.y[i];
+      subset.count++;
+    }
+    this.builder.sampleBrightness(media, w, h, subset, true);
+    this.reportHistogram();
+  }
 
-    const spacing = gridSettings.density;
-    const bgBr = this.state.mediaType === 'obj3d' ? obj3d.bgBrightness : 0;
-    const { grid, cols, rows } = computeBrightnessGrid(
-      media, w, h, spacing, mapping.contrast, mapping.brightness, mediaTransform, bgBr,
+  /**
+   * Snapshot the source as an ImageBitmap and hand it to the worker, which
+   * samples, builds and draws the frame (see onWorkerFrame). The 3D render
+   * and video decode stay here; without media the placeholder is drawn here.
+   */
+  private requestFrame(w: number, h: number): void {
+    const { obj3d } = this.state;
+    const media = getMediaElementFor3D(w, h, this.time, obj3d.rotationX, obj3d.rotationY);
+    const worker = this.worker;
+    if (!media || !worker) {
+      this.drawFrame(this.ctx, w, h);
+      return;
+    }
+    this.framePending = true;
+    createImageBitmap(media).then(
+      bitmap => {
+        const request: FrameWorkerRequest = {
+          type: 'frame', media: bitmap, width: w, height: h, pixelRatio: window.devicePixelRatio || 1,
+        };
+        worker.postMessage(request, [bitmap]);
+      },
+      () => {
+        // No frame to snapshot yet (e.g. video still loading); retry on the next tick
+        this.framePending = false;
+        this.dirty = true;
+      },
     );
+  }
 
-    const maxRadius = spacing * 0.48;
-    const minScale = mapping.minSize / 100;
-    const maxScale = mapping.maxSize / 100;
+  /** Composite a frame drawn by the worker onto the preview canvas */
+  private onWorkerFrame = (e: MessageEvent<FrameWorkerResponse>): void => {
+    const { bitmap, histogram } = e.data;
+    this.framePending = false;
+    // Once stopped the canvas belongs to whoever stopped it
+    if (this.running) {
+      const { width: w, height: h } = this.getContainerSize();
+      this.ctx.drawImage(bitmap, 0, 0, w, h);
+      this.builder.histogram.set(histogram);
+      this.reportHistogram();
+    }
+    bitmap.close();
+  };
 
-    ctx.fillStyle = colors.foreground;
+  /** Fall back to building frames on the main thread if the worker fails */
+  private onWorkerError = (): void => {
+    this.worker?.terminate();
+    this.worker = null;
+    this.framePending = false;
+    this.dirty = true;
+  };
 
-    if (shape === 'circle') {
-      batchDrawCircles(ctx, grid, cols, rows, spacing, maxRadius, minScale, maxScale, mapping.invert);
-    } else if (shape === 'triangle-up') {
-      batchDrawTriangles(ctx, grid, cols, rows, spacing, maxRadius, minScale, maxScale, mapping.invert);
-    } else {
-      for (let row = 0; row < rows; row++) {
-        for (let col = 0; col < cols; col++) {
-          let b = grid[row * cols + col];
-          if (mapping.invert) b = 1 - b;
+  /**
+   * Seek every animated source to an exact timeline position (seconds):
+   * GIF frame, video currentTime and 3D turntable angle. Deterministic, so the
+   * same time always yields the same frame regardless of playback speed.
+   * A 3D object that is not auto-rotating keeps its current pose.
+   */
+  private async seekMedia(time: number): Promise<void> {
+    const { mediaType, obj3d } = this.state;
+    if (mediaType !== 'obj3d' || obj3d.autoRotate) {
+      this.time = time;
+    }
+    if (mediaType === 'video') {
+      await seekVideo(time);
+    } else if (mediaType === 'gif') {
+      seekGif(time);
+    }
+  }
 
-          const size = minScale + b * (maxScale - minScale);
-          const clampedSize = size < 0 ? 0 : size > 1 ? 1 : size;
-          const radius = maxRadius * clampedSize;
+  /** Render the preview canvas at an exact timeline position (seconds) */
+  async renderAt(time: number): Promise<void> {
+    await this.seekMedia(time);
+    const { width: w, height: h } = this.getContainerSize();
+    this.drawFrame(this.ctx, w, h);
+  }
 
-          if (radius < 0.3) continue;
+  /**
+   * Render the frame at an exact timeline position into an arbitrary canvas
+   * at the given pixel size. The layout keeps the on-screen grid spacing and
+   * is scaled up to fill the target, so a 4K render looks like the preview
+   * rather than a denser grid.
+   */
+  async renderToCanvasAt(time: number, target: HTMLCanvasElement, width: number, height: number): Promise<void> {
+    await this.seekMedia(time);
+    this.renderToCanvas(target, width, height);
+  }
 
-          const cx = col * spacing + spacing * 0.5;
-          const cy = row * spacing + spacing * 0.5;
+  /** Render the current frame into an arbitrary canvas, see renderToCanvasAt */
+  renderToCanvas(target: HTMLCanvasElement, width: number, height: number): void {
+    const layout = this.getExportLayout(width, height);
+    if (target.width !== width || target.height !== height) {
+      target.width = width;
+      target.height = height;
+    }
+    const ctx = target.getContext('2d')!;
+    ctx.setTransform(layout.scale, 0, 0, layout.scale, 0, 0);
+    this.drawFrame(ctx, layout.width, layout.height);
+  }
 
-          drawShape(ctx, shape, cx, cy, radius, customSvgPath, customSvgViewBox, this.state.customTextChar);
-        }
-      }
+  /**
+   * Logical layout size for an output of the given size: the output aspect
+   * ratio, covering the viewport, so grid spacing and view transform keep
+   * their on-screen meaning. `scale` maps layout units to output units.
+   */
+  private getExportLayout(outWidth: number, outHeight: number): { width: number; height: number; scale: number } {
+    const { width: vw, height: vh } = this.getContainerSize();
+    const scale = Math.min(outWidth / vw, outHeight / vh);
+    return { width: outWidth / scale, height: outHeight / scale, scale };
+  }
+
+  /** Size of the preview viewport in CSS pixels */
+  getViewportSize(): { width: number; height: number } {
+    return this.getContainerSize();
+  }
+
+
+  /** Sample the source and place the shapes for a layout of w × h, on this thread */
+  private computeFrame(w: number, h: number): FrameGeometry | null {
+    const { obj3d } = this.state;
+    const media = getMediaElementFor3D(w, h, this.time, obj3d.rotationX, obj3d.rotationY);
+    if (!media) return null;
+    return this.builder.build(media, w, h);
+  }
+
+  private drawFrame(ctx: CanvasRenderingContext2D, w: number, h: number): void {
+    const frame = this.computeFrame(w, h);
+    if (frame) {
+      drawFrameGeometry(ctx, frame, w, h);
+      return;
+    }
+
+    ctx.fillStyle = this.state.colors.background;
+    ctx.fillRect(0, 0, w, h);
+    if (!has3DObject() && !this.state.uploadedImage) {
+      ctx.fillStyle = 'rgba(255,255,255,0.15)';
+      ctx.font = '14px "Geist Mono", monospace';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('Drop an image, video, or 3D object to start', w / 2, h / 2);
     }
+  }
 
-    ctx.restore();
+  /**
+   * Serialize the current frame as SVG, matching the canvas including the
+   * view transform. Without a size the document matches the viewport; with
+   * one, the layout is fitted like renderToCanvas and the size is written in
+   * the given unit (e.g. `mm` for print).
+   */
+  toSVG(size?: { width: number; height: number; unit?: 'px' | 'mm' | 'in' }, mode: SvgMode = 'compact'): string {
+    const { width: w, height: h } = size ? this.getExportLayout(size.width, size.height) : this.getContainerSize();
+    const frame = this.computeFrame(w, h);
+    if (!frame) return '';
+
+    return buildSvg(frame, {
+      width: size ? size.width : w,
+      height: size ? size.height : h,
+      unit: size?.unit && size.unit !== 'px' ? size.unit : '',
+    }, mode);
   }
 
-  toSVG(): string {
-    const { width: w, height: h } = this.getContainerSize();
-    const { colors, mapping, grid: gridSettings, shape, customSvgPath, customSvgViewBox, mediaTransform, obj3d } = this.state;
+  /** Vector PDF of the current frame, fitted into the page's content box */
+  async toPDF(page: PdfPageOptions): Promise<Blob | null> {
+    const box = getPdfContentBox(page);
+    const { width: w, height: h } = this.getExportLayout(box.width, box.height);
+    const frame = this.computeFrame(w, h);
+    if (!frame) return null;
+    return buildPdf(frame, page);
+  }
 
-    const media = getMediaElementFor3D(w, h, obj3d.autoRotate, obj3d.rotationX, obj3d.rotationY);
-    if (!media) return '';
+  /**
+   * The current frame as text art: one character per cell of a monospace
+   * grid at the grid density covering the viewport (zoom and pan are not
+   * applied), picked from the text shape or the shape ramp by brightness.
+   * Null without media or when the shape has no text form.
+   */
+  toText(format: TextFormat): string | null {
+    const { mapping, grid: gridSettings, obj3d, colors } = this.state;
+    const chars = getTextRamp(this.state.shape, this.state.customTextChar, this.state.shapeRamp);
+    if (!chars) return null;
+    const { width: w, height: h } = this.getContainerSize();
+    const media = getMediaElementFor3D(w, h, this.time, obj3d.rotationX, obj3d.rotationY);
+    if (!media) return null;
 
     const spacing = gridSettings.density;
-    const bgBrSvg = this.state.mediaType === 'obj3d' ? obj3d.bgBrightness : 0;
-    const { grid, cols, rows } = computeBrightnessGrid(
-      media, w, h, spacing, mapping.contrast, mapping.brightness, mediaTransform, bgBrSvg,
-    );
+    const points = getTextPoints(w, h, spacing);
+    const { grid, fills } = this.builder.sampleBrightness(media, w, h, points, false);
+    let invert = mapping.invert;
+    if (mapping.dither !== 'none') {
+      // Dithered values already have invert applied
+      ditherGrid(grid, points, mapping.dither, spacing, false, invert);
+      invert = false;
+    }
 
-    const maxRadius = spacing * 0.48;
-    const minScale = mapping.minSize / 100;
-    const maxScale = mapping.maxSize / 100;
-
-    const elements: string[] = [];
-    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`);
-    elements.push(`<rect width="${w}" height="${h}" fill="${colors.background}" />`);
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        let brightness = grid[row * cols + col];
-        if (mapping.invert) brightness = 1 - brightness;
-
-        const size = minScale + brightness * (maxScale - minScale);
-        const clampedSize = Math.max(0, Math.min(1, size));
-        const r = maxRadius * clampedSize;
-        if (r < 0.3) continue;
-
-        const cx = (col * spacing + spacing / 2).toFixed(1);
-        const cy = (row * spacing + spacing / 2).toFixed(1);
-        const rs = r.toFixed(1);
-
-        switch (shape) {
-          case 'circle':
-            elements.push(`<circle cx="${cx}" cy="${cy}" r="${rs}" fill="${colors.foreground}" />`);
-            break;
-          case 'square': {
-            const x = (parseFloat(cx) - r).toFixed(1);
-            const y = (parseFloat(cy) - r).toFixed(1);
-            const s = (r * 2).toFixed(1);
-            elements.push(`<rect x="${x}" y="${y}" width="${s}" height="${s}" fill="${colors.foreground}" />`);
-            break;
-          }
-          case 'triangle-up': {
-            const h2 = r * Math.sqrt(3);
-            const cxn = parseFloat(cx);
-            const cyn = parseFloat(cy);
-            elements.push(`<polygon points="${cxn},${(cyn - r).toFixed(1)} ${(cxn - h2 / 2).toFixed(1)},${(cyn + r).toFixed(1)} ${(cxn + h2 / 2).toFixed(1)},${(cyn + r).toFixed(1)}" fill="${colors.foreground}" />`);
-            break;
-          }
-          case 'text': {
-            const fontSize = (r * 2).toFixed(1);
-            elements.push(`<text x="${cx}" y="${cy}" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central" fill="${colors.foreground}">${this.state.customTextChar}</text>`);
-            break;
-          }
-          case 'custom': {
-            if (customSvgPath && customSvgViewBox) {
-              const scale = (r * 2) / Math.max(customSvgViewBox.width, customSvgViewBox.height);
-              const tx = parseFloat(cx) - (customSvgViewBox.width * scale) / 2;
-              const ty = parseFloat(cy) - (customSvgViewBox.height * scale) / 2;
-              elements.push(`<path d="${customSvgPath}" transform="translate(${tx.toFixed(1)},${ty.toFixed(1)}) scale(${scale.toFixed(4)})" fill="${colors.foreground}" />`);
-            } else {
-              elements.push(`<circle cx="${cx}" cy="${cy}" r="${rs}" fill="${colors.foreground}" />`);
-            }
-            break;
-          }
-        }
+    let packed: Uint32Array | null = null;
+    if (format === 'html' && fills && colors.mode !== 'foreground') {
+      packed = new Uint32Array(points.count);
+      for (let i = 0; i < points.count; i++) {
+        packed[i] = (fills[i * 3] << 16) | (fills[i * 3 + 1] << 8) | fills[i * 3 + 2];
       }
+      if (colors.mode === 'palette') quantizeColors(packed, points.count, colors.palette.map(hexToRgb));
     }
+    const { columns, rows } = getTextGridSize(w, h, spacing);
+    return buildText(grid, packed, columns, rows, chars, invert, format, colors, spacing);
+  }
 
-    elements.push('</svg>');
-    return elements.join('\n');
+  /** Pen plotter strokes (G-code or HPGL) for the current frame at the given size in mm */
+  toPlot(options: PlotterOptions): string | null {
+    const { width: w, height: h } = this.getExportLayout(options.width, options.height);
+    const frame = this.computeFrame(w, h);
+    if (!frame) return null;
+    return buildPlot(frame, options);
   }
 }
@@ -0,0 +1,260 @@
+import type {
+  BrightnessMapping, ColorSettings, OutlineSettings, RampStep, SeparationChannel, ShapeParams, ShapeType, ViewTransform,
+} from '../types';
+import type { PointList } from './layouts';
+import type { SeparationBlend } from './separations';
+import type { LineBuffer } from './lineScreen';
+import type { RGB } from '../utils/color';
+import { nearestColorIndex } from '../utils/color';
+
+/** Shapes smaller than this radius (layout px) are not drawn */
+export const MIN_RADIUS = 0.3;
+/** Outlines thinner than this (layout px) are not drawn */
+export const MIN_STROKE = 0.1;
+/** Brightness-mapped stroke widths are snapped to this many steps of the heaviest one */
+export const STROKE_LEVELS = 64;
+
+/**
+ * Shape placements for one frame in layout coordinates (before the view
+ * transform). Struct-of-arrays so the buffers can be reused across frames.
+ */
+export interface CellBuffer {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  r: Float32Array;
+  color: Uint32Array;         // 0xRRGGBB fill per shape, used when the frame has cell colors
+  band: Uint8Array;           // shape ramp step per shape, used when the frame has a ramp
+  stroke: Float32Array;       // outline width per shape, used when the frame has an outline
+}
+
+/** One ink of a separated frame, screened at its own angle */
+export interface SeparationLayer {
+  channel: SeparationChannel;
+  label: string;
+  ink: string;
+  angle: number;              // radians
+  cells: CellBuffer;
+  lines: LineBuffer | null;
+}
+
+/** A frame ready to draw or serialize: layout size, shapes and how to style them */
+export interface FrameGeometry {
+  width: number;              // layout size
+  height: number;
+  spacing: number;            // nearest-neighbour distance between cells
+  angle: number;              // screen angle (radians); every shape is rotated by it
+  view: ViewTransform;
+  colors: ColorSettings;
+  shape: ShapeType;
+  customSvgPath: string | null;
+  customSvgViewBox: { width: number; height: number } | null;
+  customTextChar: string;
+  shapeParams: ShapeParams;
+  cells: CellBuffer;
+  cellColors: boolean;        // fill each shape with cells.color instead of colors.foreground
+  // Per-channel layers composited with `blend`; `cells` is then empty (see getFrameLayers)
+  separation: { blend: SeparationBlend; layers: SeparationLayer[] } | null;
+  // Shape per brightness band, indexed by cells.band; `shape` is then 'ramp' (see getRampLayers)
+  ramp: RampStep[] | null;
+  // Stroke the shapes with cells.stroke instead of filling them
+  outline: OutlineSettings | null;
+  // Line-screen polygons filled instead of shapes; `cells` is then empty
+  lines: LineBuffer | null;
+}
+
+export function createCellBuffer(capacity = 0): CellBuffer {
+  return {
+    count: 0,
+    x: new Float32Array(capacity),
+    y: new Float32Array(capacity),
+    r: new Float32Array(capacity),
+    color: new Uint32Array(capacity),
+    band: new Uint8Array(capacity),
+    stroke: new Float32Array(capacity),
+  };
+}
+
+// Reusable cell buffers, one per slot so separations can keep every channel
+const cellBuffers: CellBuffer[] = [];
+
+function getCellBuffer(capacity: number, slot: number): CellBuffer {
+  let cells = cellBuffers[slot];
+  if (!cells || cells.x.length < capacity) {
+    cells = cellBuffers[slot] = createCellBuffer(capacity);
+  }
+  cells.count = 0;
+  return cells;
+}
+
+/** Radius factor (0-1) for a brightness value under the mapping's invert/min/max size */
+export function sizeForBrightness(b: number, mapping: BrightnessMapping): number {
+  if (mapping.invert) b = 1 - b;
+  const minScale = mapping.minSize / 100;
+  const maxScale = mapping.maxSize / 100;
+  const size = minScale + b * (maxScale - minScale);
+  return size < 0 ? 0 : size > 1 ? 1 : size;
+}
+
+/** Ramp band (0 to bands - 1) for an already inverted brightness, split evenly over 0-1 */
+export function rampBand(b: number, bands: number): number {
+  return b <= 0 ? 0 : Math.min(bands - 1, Math.floor(b * bands));
+}
+
+/** Shape ramp options for buildCells */
+export interface RampBands {
+  bands: number;
+  scale: boolean;             // size by brightness, or draw every shape at max size
+}
+
+/**
+ * Turn brightness samples into the list of shapes to draw, one per point,
+ * copying the sampled RGB (if any) into `color`. With a ramp, each shape
+ * also gets the brightness band it falls in, split evenly over 0-1 after invert.
+ * With an outline, each shape gets its stroke width: in 'weight' mode the
+ * shapes keep max size and brightness drives the stroke instead, in
+ * STROKE_LEVELS steps so renderers can draw each width in one batch.
+ * The returned buffer is shared and only valid until the next call with the same slot.
+ */
+export function buildCells(
+  grid: Float32Array,
+  points: PointList,
+  spacing: number,
+  mapping: BrightnessMapping,
+  colors?: Uint8ClampedArray | null,
+  slot = 0,
+  ramp: RampBands | null = null,
+  outline: OutlineSettings | null = null,
+): CellBuffer {
+  const out = getCellBuffer(points.count, slot);
+  const maxRadius = spacing * 0.48;
+  const weighted = outline?.mode === 'weight';
+  const fixedSize = (ramp && !ramp.scale) || weighted;
+  const fixedRadius = fixedSize ? maxRadius * Math.min(1, mapping.maxSize / 100) : 0;
+
+  let n = 0;
+  for (let i = 0; i < points.count; i++) {
+    const size = sizeForBrightness(grid[i], mapping);
+    const r = fixedSize ? fixedRadius : maxRadius * size;
+    if (r < MIN_RADIUS) continue;
+    if (outline) {
+      const stroke = weighted ? (outline.width * Math.round(size * STROKE_LEVELS)) / STROKE_LEVELS : outline.width;
+      if (stroke < MIN_STROKE) continue;
+      out.stroke[n] = stroke;
+    }
+    out.x[n] = points.x[i];
+    out.y[n] = points.y[i];
+    out.r[n] = r;
+    if (colors) out.color[n] = (colors[i * 3] << 16) | (colors[i * 3 + 1] << 8) | colors[i * 3 + 2];
+    if (ramp) out.band[n] = rampBand(mapping.invert ? 1 - grid[i] : grid[i], ramp.bands);
+    n++;
+  }
+  out.count = n;
+  return out;
+}
+
+// Reusable RGB buffer for gradient-mapped colors
+let gradientRgb = new Uint8ClampedArray(0);
+
+/**
+ * RGB triplets per point from a gradient LUT (see buildGradientLut), looked
+ * up by the same inverted-or-not brightness that sizes the shape, ready to
+ * pass to buildCells. The returned buffer is shared.
+ */
+export function gradientColors(grid: Float32Array, count: number, lut: Uint32Array, invert: boolean): Uint8ClampedArray {
+  if (gradientRgb.length < count * 3) gradientRgb = new Uint8ClampedArray(count * 3);
+  const last = lut.length - 1;
+  for (let i = 0; i < count; i++) {
+    const b = invert ? 1 - grid[i] : grid[i];
+    const c = lut[Math.round((b < 0 ? 0 : b > 1 ? 1 : b) * last)];
+    gradientRgb[i * 3] = c >> 16;
+    gradientRgb[i * 3 + 1] = (c >> 8) & 255;
+    gradientRgb[i * 3 + 2] = c & 255;
+  }
+  return gradientRgb;
+}
+
+// Reusable per-band cell buffers for getRampLayers
+const bandBuffers: CellBuffer[] = [];
+
+/**
+ * Frames to draw for a shape ramp: one per band with that band's shapes and
+ * its step's shape or character, or the frame itself without a ramp. Blank
+ * characters are skipped. Call per separation layer (see getFrameLayers); the
+ * returned buffers are shared and only valid until the next call.
+ */
+export function getRampLayers(frame: FrameGeometry): FrameGeometry[] {
+  const { ramp, cells } = frame;
+  if (!ramp) return [frame];
+
+  const counts = new Array<number>(ramp.length).fill(0);
+  for (let i = 0; i < cells.count; i++) counts[cells.band[i]]++;
+  const bands = counts.map((count, k) => {
+    let buf = bandBuffers[k];
+    if (!buf || buf.x.length < count) buf = bandBuffers[k] = createCellBuffer(count);
+    buf.count = 0;
+    return buf;
+  });
+  for (let i = 0; i < cells.count; i++) {
+    const k = cells.band[i];
+    const buf = bands[k];
+    const n = buf.count++;
+    buf.x[n] = cells.x[i];
+    buf.y[n] = cells.y[i];
+    buf.r[n] = cells.r[i];
+    buf.color[n] = cells.color[i];
+    buf.band[n] = k;
+    buf.stroke[n] = cells.stroke[i];
+  }
+
+  const layers: FrameGeometry[] = [];
+  ramp.forEach((step, k) => {
+    if (bands[k].count === 0 || (step.shape === 'text' && !step.char.trim())) return;
+    layers.push({ ...frame, shape: step.shape, customTextChar: step.char, cells: bands[k], ramp: null });
+  });
+  return layers;
+}
+
+/** Snap every cell color to the nearest palette entry */
+export function quantizeCellColors(cells: CellBuffer, palette: RGB[]): void {
+  quantizeColors(cells.color, cells.count, palette);
+}
+
+/** Snap the first `count` 0xRRGGBB colors to the nearest palette entry */
+export function quantizeColors(colors: Uint32Array, count: number, palette: RGB[]): void {
+  if (palette.length === 0) return;
+  const packed = palette.map(([r, g, b]) => (r << 16) | (g << 8) | b);
+  // Source colors repeat a lot (flat areas, background); cache lookups
+  const cache = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    const c = colors[i];
+    let q = cache.get(c);
+    if (q === undefined) {
+      q = packed[nearestColorIndex([c >> 16, (c >> 8) & 255, c & 255], palette)];
+      cache.set(c, q);
+    }
+    colors[i] = q;
+  }
+}
+
+/**
+ * Half-size of a cell's bounding box relative to its radius: rotated
+ * shapes reach past r toward their corners.
+ */
+export function cellExtent(angle: number): number {
+  return angle === 0 ? 1 : Math.SQRT2;
+}
+
+/** Layout-space rectangle visible through the view transform in a w × h viewport */
+export function getVisibleBounds(
+  view: ViewTransform,
+  w: number,
+  h: number,
+): { minX: number; minY: number; maxX: number; maxY: number } {
+  return {
+    minX: -view.offsetX / view.scale,
+    minY: -view.offsetY / view.scale,
+    maxX: (w - view.offsetX) / view.scale,
+    maxY: (h - view.offsetY) / view.scale,
+  };
+}
@@ -0,0 +1,154 @@
+import type { DitherMethod } from '../types';
+import type { PointList } from './layouts';
+
+/** Error diffusion kernel: [dcol, drow, weight] with weights over `divisor` */
+interface DiffusionKernel {
+  taps: [number, number, number][];
+  divisor: number;
+}
+
+const KERNELS: Partial<Record<DitherMethod, DiffusionKernel>> = {
+  'floyd-steinberg': {
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+    divisor: 16,
+  },
+  // Spreads only 3/4 of the error, trading shadow detail for crisper highlights
+  atkinson: {
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+    divisor: 8,
+  },
+  jarvis: {
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+    divisor: 48,
+  },
+};
+
+const BAYER_SIZES: Partial<Record<DitherMethod, number>> = { bayer2: 2, bayer4: 4, bayer8: 8 };
+
+/** Bayer index matrix of size n (a power of two), row-major, values 0..n²-1 */
+function bayerMatrix(n: number): Uint8Array {
+  let m = new Uint8Array([0]);
+  for (let size = 1; size < n; size *= 2) {
+    const next = new Uint8Array(size * size * 4);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const v = m[y * size + x] * 4;
+        next[y * 2 * size + x] = v;
+        next[y * 2 * size + x + size] = v + 2;
+        next[(y + size) * 2 * size + x] = v + 3;
+        next[(y + size) * 2 * size + x + size] = v + 1;
+      }
+    }
+    m = next;
+  }
+  return m;
+}
+
+// Working copy of the brightness values for error diffusion
+let work = new Float32Array(0);
+
+/**
+ * Replace every brightness in `grid` with 1 (full-size shape) or 0 (no
+ * shape). `invert` is applied first so "on" always means a drawn shape.
+ *
+ * Error diffusion walks rows in serpentine order using the points' lattice
+ * indices; error meant for a missing neighbour (layout edge, ring ends) is
+ * shared among the ones that exist, so tone is kept on irregular layouts.
+ * Bayer thresholds follow the lattice indices, or a raster of `spacing`
+ * cells in layout space when `radial` (the indices are not 2D there).
+ */
+export function ditherGrid(
+  grid: Float32Array,
+  points: PointList,
+  method: DitherMethod,
+  spacing: number,
+  radial: boolean,
+  invert: boolean,
+): void {
+  const count = points.count;
+  if (invert) {
+    for (let i = 0; i < count; i++) grid[i] = 1 - grid[i];
+  }
+
+  const bayerSize = BAYER_SIZES[method];
+  if (bayerSize) {
+    const matrix = bayerMatrix(bayerSize);
+    const levels = bayerSize * bayerSize;
+    for (let i = 0; i < count; i++) {
+      const col = radial ? Math.floor(points.x[i] / spacing) : points.col[i];
+      const row = radial ? Math.floor(points.y[i] / spacing) : points.row[i];
+      const mx = ((col % bayerSize) + bayerSize) % bayerSize;
+      const my = ((row % bayerSize) + bayerSize) % bayerSize;
+      grid[i] = grid[i] > (matrix[my * bayerSize + mx] + 0.5) / levels ? 1 : 0;
+    }
+    return;
+  }
+
+  const kernel = KERNELS[method];
+  if (!kernel || count === 0) return;
+  diffuseError(grid, points, kernel);
+}
+
+function diffuseError(grid: Float32Array, points: PointList, kernel: DiffusionKernel): void {
+  const count = points.count;
+  let colMin = Infinity, colMax = -Infinity, rowMin = Infinity, rowMax = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const c = points.col[i];
+    const r = points.row[i];
+    if (c < colMin) colMin = c;
+    if (c > colMax) colMax = c;
+    if (r < rowMin) rowMin = r;
+    if (r > rowMax) rowMax = r;
+  }
+
+  // Dense (row, col) -> point index map; -1 where the layout has no point
+  const cols = colMax - colMin + 1;
+  const rows = rowMax - rowMin + 1;
+  const index = new Int32Array(cols * rows).fill(-1);
+  for (let i = 0; i < count; i++) {
+    index[(points.row[i] - rowMin) * cols + points.col[i] - colMin] = i;
+  }
+
+  if (work.length < count) work = new Float32Array(count);
+  work.set(grid.subarray(0, count));
+
+  const total = kernel.taps.reduce((sum, [, , w]) => sum + w, 0);
+  const targets = new Int32Array(kernel.taps.length);
+  const weights = new Float32Array(kernel.taps.length);
+
+  for (let row = 0; row < rows; row++) {
+    // Serpentine: odd rows run right to left with the kernel mirrored
+    const dir = row & 1 ? -1 : 1;
+    for (let k = 0; k < cols; k++) {
+      const col = dir === 1 ? k : cols - 1 - k;
+      const i = index[row * cols + col];
+      if (i < 0) continue;
+
+      const value = work[i];
+      const out = value >= 0.5 ? 1 : 0;
+      grid[i] = out;
+      const err = value - out;
+
+      let n = 0;
+      let available = 0;
+      for (const [dc, dr, w] of kernel.taps) {
+        const c = col + dc * dir;
+        const r = row + dr;
+        if (c < 0 || c >= cols || r >= rows) continue;
+        const j = index[r * cols + c];
+        if (j < 0) continue;
+        targets[n] = j;
+        weights[n] = w;
+        available += w;
+        n++;
+      }
+      if (n === 0) continue;
+      const scale = (err * total) / (kernel.divisor * available);
+      for (let t = 0; t < n; t++) work[targets[t]] += weights[t] * scale;
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import type { AppState, BrightnessMapping, GradientStop, GridSettings } from '../types';
+import { computeBrightnessGrid } from './sampling';
+import type { SampleSource } from './sampling';
+import { buildCells, createCellBuffer, gradientColors, quantizeCellColors } from './cells';
+import type { FrameGeometry, SeparationLayer } from './cells';
+import { buildGradientLut, hexToRgb } from '../utils/color';
+import { createPointList, getLayoutPoints, getLineScreenPoints, isRadialLayout } from './layouts';
+import type { PointList } from './layouts';
+import { buildLines } from './lineScreen';
+import { ditherGrid } from './dither';
+import { HISTOGRAM_BINS, applyToneLut, buildToneLut, fillHistogram, isIdentityTone } from './toneCurve';
+import { SEPARATION_BLEND, SEPARATION_INKS, SEPARATION_PAPER, channelAmounts } from './separations';
+
+/**
+ * Turns a source frame and the app settings into frame geometry: layout
+ * points, brightness sampling, levels and curve, dithering and the shapes or
+ * lines to draw. Keeps lookup tables and buffers between frames. Free of DOM
+ * access so the same builder runs in the frame worker and on the main thread.
+ */
+export class FrameBuilder {
+  private state: AppState;
+  // Points of every separation screen, sampled together
+  private separationPoints: PointList = createPointList();
+  private gradientLut: { stops: GradientStop[]; lut: Uint32Array } | null = null;
+  private toneLut: { mapping: BrightnessMapping; lut: Float32Array | null } | null = null;
+
+  /** Brightness histogram of the last built frame, before levels and curve */
+  readonly histogram = new Uint32Array(HISTOGRAM_BINS);
+
+  constructor(state: AppState) {
+    this.state = state;
+  }
+
+  updateState(state: AppState): void {
+    this.state = state;
+  }
+
+  /** Levels and curve lookup table, or null when they change nothing */
+  private getToneLut(): Float32Array | null {
+    const { mapping } = this.state;
+    const cached = this.toneLut;
+    if (!cached || cached.mapping.levels !== mapping.levels || cached.mapping.curve !== mapping.curve) {
+      const lut = isIdentityTone(mapping.levels, mapping.curve) ? null : buildToneLut(mapping.levels, mapping.curve);
+      this.toneLut = { mapping, lut };
+      return lut;
+    }
+    return cached.lut;
+  }
+
+  /** Gradient map lookup table, rebuilt only when the stops change */
+  private getGradientLut(stops: GradientStop[]): Uint32Array {
+    if (this.gradientLut?.stops !== stops) {
+      this.gradientLut = { stops, lut: buildGradientLut(stops) };
+    }
+    return this.gradientLut.lut;
+  }
+
+  /**
+   * Apply the dithering method to a brightness grid in place and return the
+   * mapping to build its cells with: dithered cells are full size or absent.
+   */
+  private dither(grid: Float32Array, points: PointList): BrightnessMapping {
+    const { mapping, grid: gridSettings, lineScreen } = this.state;
+    if (mapping.dither === 'none') return mapping;
+    const radial = lineScreen.pattern === 'off' ? isRadialLayout(gridSettings.layout) : lineScreen.pattern === 'circles';
+    ditherGrid(grid, points, mapping.dither, gridSettings.density, radial, mapping.invert);
+    return { ...mapping, invert: false, minSize: 0 };
+  }
+
+  /**
+   * Brightness per point after levels and curve, with the fill colors of the
+   * color mode (null for foreground), for single-ink output. Optionally
+   * records the histogram first. The returned buffers are shared.
+   */
+  sampleBrightness(
+    media: SampleSource,
+    w: number,
+    h: number,
+    points: PointList,
+    histogram: boolean,
+  ): { grid: Float32Array; fills: Uint8ClampedArray | null } {
+    const { mapping, grid: gridSettings, mediaTransform, obj3d, colors } = this.state;
+    const spacing = gridSettings.density;
+    const bgBr = this.state.mediaType === 'obj3d' ? obj3d.bgBrightness : 0;
+    // The gradient map only needs brightness, not the averaged source colors
+    const sampleColors = colors.mode === 'source' || colors.mode === 'palette';
+    const { grid, colors: sampled } = computeBrightnessGrid(
+      media, w, h, points, mapping.contrast, mapping.brightness, mediaTransform, bgBr,
+      sampleColors ? spacing : 0, mapping.sampling, spacing,
+      mapping.source === 'edges' ? { threshold: mapping.edgeThreshold / 100, blur: mapping.edgeBlur } : null,
+    );
+    if (histogram) fillHistogram(grid, points.count, this.histogram);
+    const toneLut = this.getToneLut();
+    if (toneLut) applyToneLut(grid, points.count, toneLut);
+    const fills = colors.mode === 'gradient'
+      ? gradientColors(grid, points.count, this.getGradientLut(colors.gradient), mapping.invert)
+      : sampled;
+    return { grid, fills };
+  }
+
+  /** Grow the combined separation point buffer, keeping its contents */
+  private reservePoints(capacity: number): PointList {
+    const current = this.separationPoints;
+    if (current.x.length >= capacity) return current;
+    const grown = createPointList(Math.max(capacity, current.x.length * 2));
+    grown.count = current.count;
+    grown.x.set(current.x);
+    grown.y.set(current.y);
+    grown.col.set(current.col);
+    grown.row.set(current.row);
+    this.separationPoints = grown;
+    return grown;
+  }
+
+  /** Sample points of the line screen, or of the grid layout when it is off */
+  private getPoints(gridSettings: GridSettings, w: number, h: number): PointList {
+    const { lineScreen } = this.state;
+    return lineScreen.pattern === 'off'
+      ? getLayoutPoints(gridSettings, w, h)
+      : getLineScreenPoints(gridSettings, lineScreen, w, h);
+  }
+
+  /**
+   * Sample the source and place the shapes (or line-screen lines) for a
+   * layout of w × h. The frame's buffers are shared and only valid until the
+   * next build.
+   */
+  build(media: SampleSource, w: number, h: number): FrameGeometry {
+    const { mapping, grid: gridSettings, mediaTransform, obj3d, colors } = this.state;
+
+    const spacing = gridSettings.density;
+    const bgBr = this.state.mediaType === 'obj3d' ? obj3d.bgBrightness : 0;
+    const { shapeRamp } = this.state;
+    // A line screen replaces the shapes, so ramps and outlines do not apply
+    const lineScreen = this.state.lineScreen.pattern !== 'off';
+    const ramp = !lineScreen && this.state.shape === 'ramp' && shapeRamp.steps.length > 0 ? shapeRamp.steps : null;
+    const rampBands = ramp ? { bands: ramp.length, scale: shapeRamp.scale } : null;
+    const outline = lineScreen || this.state.outline.mode === 'off' ? null : this.state.outline;
+    const base = {
+      width: w,
+      height: h,
+      spacing,
+      view: this.state.view,
+      shape: this.state.shape === 'ramp' && !ramp ? 'circle' as const : this.state.shape,
+      customSvgPath: this.state.customSvgPath,
+      customSvgViewBox: this.state.customSvgViewBox,
+      customTextChar: this.state.customTextChar,
+      shapeParams: this.state.shapeParams,
+      ramp,
+      outline,
+    };
+
+    const { separation } = this.state;
+    if (separation.mode !== 'off') {
+      const mode = separation.mode;
+      const inks = SEPARATION_INKS[mode];
+      // Each channel gets its own rotated screen; the screens are sampled in one pass
+      const offsets: number[] = [];
+      let total = 0;
+      for (const ink of inks) {
+        const points = this.getPoints({ ...gridSettings, angle: separation.angles[ink.channel] }, w, h);
+        const all = this.reservePoints(total + points.count);
+        all.x.set(points.x.subarray(0, points.count), total);
+        all.y.set(points.y.subarray(0, points.count), total);
+        all.col.set(points.col.subarray(0, points.count), total);
+        all.row.set(points.row.subarray(0, points.count), total);
+        offsets.push(total);
+        total += points.count;
+      }
+      offsets.push(total);
+      const all = this.separationPoints;
+      all.count = total;
+      const { grid, colors: sampled } = computeBrightnessGrid(
+        media, w, h, all, mapping.contrast, mapping.brightness, mediaTransform, bgBr, spacing,
+        mapping.sampling, spacing,
+      );
+      fillHistogram(grid, total, this.histogram);
+      // Levels and curve act on each color channel, like an RGB composite curve
+      const toneLut = this.getToneLut();
+      if (sampled && toneLut) {
+        const last = toneLut.length - 1;
+        for (let i = 0; i < total * 3; i++) sampled[i] = toneLut[Math.round((sampled[i] / 255) * last)] * 255;
+      }
+
+      const layers: SeparationLayer[] = inks.map((ink, k) => {
+        const start = offsets[k];
+        const end = offsets[k + 1];
+        const points: PointList = {
+          count: end - start,
+          x: all.x.subarray(start, end),
+          y: all.y.subarray(start, end),
+          col: all.col.subarray(start, end),
+          row: all.row.subarray(start, end),
+        };
+        const amounts = grid.subarray(start, end);
+        // The luminance grid is reused to hold the channel amounts
+        if (sampled) channelAmounts(sampled.subarray(start * 3, end * 3), points.count, mode, k, amounts);
+        const cellMapping = this.dither(amounts, points);
+        return {
+          ...ink,
+          angle: (separation.angles[ink.channel] * Math.PI) / 180,
+          cells: lineScreen ? createCellBuffer() : buildCells(amounts, points, spacing, cellMapping, null, k, rampBands, outline),
+          lines: lineScreen ? buildLines(amounts, points, spacing, cellMapping, k) : null,
+        };
+      });
+      return {
+        ...base,
+        angle: 0,
+        colors: { ...colors, background: SEPARATION_PAPER[mode] },
+        cells: createCellBuffer(),
+        cellColors: false,
+        separation: { blend: SEPARATION_BLEND[mode], layers },
+        lines: null,
+      };
+    }
+
+    const points = this.getPoints(gridSettings, w, h);
+    if (lineScreen) {
+      // Lines are drawn in the foreground color; the color modes fill shapes
+      const { grid } = this.sampleBrightness(media, w, h, points, true);
+      return {
+        ...base,
+        angle: (gridSettings.angle * Math.PI) / 180,
+        colors,
+        cells: createCellBuffer(),
+        cellColors: false,
+        separation: null,
+        lines: buildLines(grid, points, spacing, this.dither(grid, points)),
+      };
+    }
+
+    const cellColors = colors.mode !== 'foreground';
+    const { grid, fills } = this.sampleBrightness(media, w, h, points, true);
+    const cells = buildCells(grid, points, spacing, this.dither(grid, points), fills, 0, rampBands, outline);
+    if (colors.mode === 'palette') quantizeCellColors(cells, colors.palette.map(hexToRgb));
+
+    return {
+      ...base,
+      angle: (gridSettings.angle * Math.PI) / 180,
+      colors,
+      cells,
+      cellColors,
+      separation: null,
+      lines: null,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import type { AppState } from '../types';
+import { DEFAULT_STATE } from '../types';
+import { FrameBuilder } from './frameBuilder';
+import { drawFrameGeometry } from './shapeDrawer';
+
+/** Messages from the renderer: new settings, or a source frame to build and draw */
+export type FrameWorkerRequest =
+  | { type: 'state'; state: AppState }
+  | { type: 'frame'; media: ImageBitmap; width: number; height: number; pixelRatio: number };
+
+/** The drawn frame at device resolution, and the brightness histogram it was built with */
+export interface FrameWorkerResponse {
+  bitmap: ImageBitmap;
+  histogram: Uint32Array;
+}
+
+const builder = new FrameBuilder(DEFAULT_STATE);
+const canvas = new OffscreenCanvas(1, 1);
+const ctx = canvas.getContext('2d')!;
+
+self.onmessage = (e: MessageEvent<FrameWorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'state') {
+    builder.updateState(request.state);
+    return;
+  }
+
+  const { media, width: w, height: h, pixelRatio } = request;
+  const frame = builder.build(media, w, h);
+  media.close();
+
+  canvas.width = Math.max(1, Math.round(w * pixelRatio));
+  canvas.height = Math.max(1, Math.round(h * pixelRatio));
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  drawFrameGeometry(ctx, frame, w, h);
+
+  const response: FrameWorkerResponse = { bitmap: canvas.transferToImageBitmap(), histogram: builder.histogram.slice() };
+  self.postMessage(response, { transfer: [response.bitmap, response.histogram.buffer] });
+};
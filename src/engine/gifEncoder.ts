@@ -0,0 +1,313 @@
+import type { ShapetoneRenderer } from './ShapetoneRenderer';
+import type { ColorSettings } from '../types';
+import { getGifFrameDelays } from './imageProcessor';
+import { hexToRgb, mixRgb } from '../utils/color';
+import type { RGB } from '../utils/color';
+
+const MAX_CODE = 4095;
+
+/** Growable byte buffer */
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  byte(v: number): void {
+    this.ensure(1);
+    this.buf[this.length++] = v;
+  }
+
+  word(v: number): void {
+    this.ensure(2);
+    this.buf[this.length++] = v & 0xff;
+    this.buf[this.length++] = (v >> 8) & 0xff;
+  }
+
+  bytes(data: ArrayLike<number>): void {
+    this.ensure(data.length);
+    this.buf.set(data, this.length);
+    this.length += data.length;
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): ArrayBuffer {
+    return this.buf.slice(0, this.length).buffer as ArrayBuffer;
+  }
+}
+
+/**
+ * Minimal GIF89a encoder: one global palette, looping forever,
+ * LZW-compressed full frames.
+ */
+export class GifEncoder {
+  private out = new ByteWriter();
+  private paletteBits: number;
+  private width: number;
+  private height: number;
+  // LZW dictionary keyed by (prefix code << paletteBits | index); entries are
+  // only valid while their stamp matches the current dictionary generation
+  private dictCodes: Int16Array;
+  private dictStamps: Int32Array;
+  private generation = 0;
+
+  constructor(width: number, height: number, palette: RGB[]) {
+    this.width = width;
+    this.height = height;
+    this.paletteBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length))));
+    if (this.paletteBits > 8) throw new Error('GIF palette is limited to 256 colors');
+
+    const tableSize = 1 << (MAX_CODE.toString(2).length + this.paletteBits);
+    this.dictCodes = new Int16Array(tableSize);
+    this.dictStamps = new Int32Array(tableSize);
+
+    const out = this.out;
+    out.ascii('GIF89a');
+    out.word(width);
+    out.word(height);
+    out.byte(0x80 | ((this.paletteBits - 1) << 4) | (this.paletteBits - 1));
+    out.byte(0);  // background color index
+    out.byte(0);  // pixel aspect ratio
+
+    for (let i = 0; i < 1 << this.paletteBits; i++) {
+      const c = palette[i] ?? [0, 0, 0];
+      out.byte(c[0]);
+      out.byte(c[1]);
+      out.byte(c[2]);
+    }
+
+    // NETSCAPE2.0 application extension: loop forever
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+
+  /** Append a frame of palette indices (width × height) shown for delayCs hundredths of a second */
+  addFrame(indices: Uint8Array, delayCs: number): void {
+    const out = this.out;
+
+    // Graphic control extension: no transparency, leave frame in place
+    out.bytes([0x21, 0xf9, 0x04, 0x04]);
+    out.word(Math.max(2, Math.round(delayCs)));
+    out.bytes([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas, no local palette
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0);
+
+    this.writeLzw(indices);
+  }
+
+  finish(): Blob {
+    this.out.byte(0x3b);
+    return new Blob([this.out.result()], { type: 'image/gif' });
+  }
+
+  private writeLzw(indices: Uint8Array): void {
+    const out = this.out;
+    const minCodeSize = Math.max(2, this.paletteBits);
+    const clearCode = 1 << minCodeSize;
+    const eoiCode = clearCode + 1;
+    const keyShift = this.paletteBits;
+    const codes = this.dictCodes;
+    const stamps = this.dictStamps;
+
+    out.byte(minCodeSize);
+
+    const block = new Uint8Array(255);
+    let blockLen = 0;
+    let bitBuf = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = eoiCode + 1;
+
+    const emit = (code: number) => {
+      bitBuf |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        block[blockLen++] = bitBuf & 0xff;
+        bitBuf >>>= 8;
+        bitCount -= 8;
+        if (blockLen === 255) {
+          out.byte(255);
+          out.bytes(block);
+          blockLen = 0;
+        }
+      }
+    };
+
+    const resetDictionary = () => {
+      this.generation++;
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    };
+
+    resetDictionary();
+    emit(clearCode);
+
+    let prefix = indices.length > 0 ? indices[0] : 0;
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << keyShift) | k;
+      if (stamps[key] === this.generation) {
+        prefix = codes[key];
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode <= MAX_CODE) {
+        codes[key] = nextCode;
+        stamps[key] = this.generation;
+        // Widen after the code that no longer fits has been assigned
+        if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+        nextCode++;
+      } else {
+        emit(clearCode);
+        resetDictionary();
+      }
+      prefix = k;
+    }
+
+    emit(prefix);
+    emit(eoiCode);
+    if (bitCount > 0) {
+      block[blockLen++] = bitBuf & 0xff;
+      if (blockLen === 255) {
+        out.byte(255);
+        out.bytes(block);
+        blockLen = 0;
+      }
+    }
+    if (blockLen > 0) {
+      out.byte(blockLen);
+      out.bytes(block.subarray(0, blockLen));
+    }
+    out.byte(0);
+  }
+}
+
+/** `tones` evenly spaced colors from background to foreground */
+export function buildDuotonePalette(colors: ColorSettings, tones: number): RGB[] {
+  const bg = hexToRgb(colors.background);
+  const fg = hexToRgb(colors.foreground);
+  const palette: RGB[] = [];
+  for (let i = 0; i < tones; i++) {
+    const c = mixRgb(bg, fg, tones > 1 ? i / (tones - 1) : 0);
+    palette.push([Math.round(c[0]), Math.round(c[1]), Math.round(c[2])]);
+  }
+  return palette;
+}
+
+/**
+ * Map RGBA pixels onto a background→foreground palette by projecting each
+ * pixel onto the line between the two colors. Anti-aliased shape edges are
+ * the only in-between colors a duotone render produces, so this is exact
+ * for the solid areas and smooth for the edges.
+ */
+export function quantizeDuotone(pixels: Uint8ClampedArray, palette: RGB[], out: Uint8Array): void {
+  const bg = palette[0];
+  const fg = palette[palette.length - 1];
+  const dr = fg[0] - bg[0];
+  const dg = fg[1] - bg[1];
+  const db = fg[2] - bg[2];
+  const len2 = dr * dr + dg * dg + db * db;
+  const steps = palette.length - 1;
+
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    if (len2 === 0) {
+      out[i] = 0;
+      continue;
+    }
+    const t = ((pixels[p] - bg[0]) * dr + (pixels[p + 1] - bg[1]) * dg + (pixels[p + 2] - bg[2]) * db) / len2;
+    const idx = Math.round(t * steps);
+    out[i] = idx < 0 ? 0 : idx > steps ? steps : idx;
+  }
+}
+
+export interface GifExportOptions {
+  fps: number;         // ignored for GIF sources, which keep their own frame delays
+  duration: number;    // seconds
+  width: number;
+  height: number;
+  tones: number;       // palette size: 2, 4, 8 or 16
+  colors: ColorSettings;
+}
+
+/** Yield to the browser so progress updates can paint between frames */
+function nextTask(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Render one pass of the timeline into a looping animated GIF.
+ * Frames are rendered offline at exact timeline positions: GIF sources keep
+ * their original frame delays, video and 3D sources are sampled at the
+ * requested frame rate.
+ */
+export async function recordGif(
+  renderer: ShapetoneRenderer,
+  options: GifExportOptions,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  const width = Math.max(1, Math.round(options.width));
+  const height = Math.max(1, Math.round(options.height));
+  const palette = buildDuotonePalette(options.colors, options.tones);
+  const encoder = new GifEncoder(width, height, palette);
+  const indices = new Uint8Array(width * height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  // Timeline position and display time (1/100 s) of every output frame
+  const frames: { time: number; delayCs: number }[] = [];
+  const gifDelays = getGifFrameDelays();
+  if (gifDelays) {
+    // Sample mid-frame so float rounding never lands on the previous frame
+    let start = 0;
+    for (const delay of gifDelays) {
+      frames.push({ time: (start + delay / 2) / 1000, delayCs: delay / 10 });
+      start += delay;
+    }
+  } else {
+    const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+    for (let i = 0; i < frameCount; i++) {
+      // Delays are whole hundredths; round cumulatively so timing does not drift
+      const delayCs = Math.round(((i + 1) * 100) / options.fps) - Math.round((i * 100) / options.fps);
+      frames.push({ time: i / options.fps, delayCs });
+    }
+  }
+
+  const resumeTime = renderer.currentTime;
+  renderer.stop();
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      await renderer.renderToCanvasAt(frames[i].time, canvas, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      quantizeDuotone(data, palette, indices);
+      encoder.addFrame(indices, frames[i].delayCs);
+      onProgress?.((i + 1) / frames.length);
+      await nextTask();
+    }
+  } finally {
+    renderer.seek(resumeTime);
+    renderer.start();
+  }
+
+  return encoder.finish();
+}
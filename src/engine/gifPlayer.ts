@@ -10,7 +10,6 @@ interface DecompressedFrame {
 export class GifPlayer {
   private frames: DecompressedFrame[] = [];
   private currentIndex = 0;
-  private lastFrameTime = 0;
   private frameCanvas: HTMLCanvasElement;
   private frameCtx: CanvasRenderingContext2D;
   private patchCanvas: HTMLCanvasElement;
@@ -40,7 +39,6 @@ export class GifPlayer {
     this.width = gif.lsd.width;
     this.height = gif.lsd.height;
     this.currentIndex = 0;
-    this.lastFrameTime = performance.now();
 
     this.frameCanvas.width = this.width;
     this.frameCanvas.height = this.height;
@@ -79,17 +77,46 @@ export class GifPlayer {
     this.frameCtx.drawImage(this.patchCanvas, dims.left, dims.top);
   }
 
-  advance(): void {
-    if (this.frames.length <= 1) return;
+  /** Display time of a frame in ms (GIF delays are in 1/100 s; browsers clamp tiny values) */
+  private frameDelay(index: number): number {
+    return Math.max(20, (this.frames[index].delay || 10) * 10);
+  }
 
-    const now = performance.now();
-    const frame = this.frames[this.currentIndex];
-    const delay = Math.max(20, (frame.delay || 10) * 10);
+  /** Index of the frame on screen at a timeline position (seconds), looping */
+  frameIndexAt(time: number): number {
+    const total = this.duration * 1000;
+    if (this.frames.length <= 1 || total <= 0) return 0;
+    let t = (time * 1000) % total;
+    if (t < 0) t += total;
+    for (let i = 0; i < this.frames.length; i++) {
+      const delay = this.frameDelay(i);
+      if (t < delay) return i;
+      t -= delay;
+    }
+    return this.frames.length - 1;
+  }
+
+  /** Show the frame at a timeline position (seconds) */
+  seek(time: number): void {
+    this.seekFrame(this.frameIndexAt(time));
+  }
 
-    if (now - this.lastFrameTime >= delay) {
-      this.currentIndex = (this.currentIndex + 1) % this.frames.length;
+  /**
+   * Show a specific frame. Frames are composited on top of each other,
+   * so seeking backwards replays from the first frame.
+   */
+  seekFrame(index: number): void {
+    if (this.frames.length === 0) return;
+    index = Math.max(0, Math.min(this.frames.length - 1, index));
+    if (index === this.currentIndex) return;
+    if (index < this.currentIndex) {
+      this.frameCtx.clearRect(0, 0, this.width, this.height);
+      this.currentIndex = 0;
+      this.renderFrame(0);
+    }
+    while (this.currentIndex < index) {
+      this.currentIndex++;
       this.renderFrame(this.currentIndex);
-      this.lastFrameTime = now;
     }
   }
 
@@ -100,4 +127,16 @@ export class GifPlayer {
   get frameCount(): number {
     return this.frames.length;
   }
+
+  /** Display time of every frame in ms */
+  get frameDelays(): number[] {
+    return this.frames.map((_, i) => this.frameDelay(i));
+  }
+
+  /** Length of one full loop in seconds */
+  get duration(): number {
+    let total = 0;
+    for (let i = 0; i < this.frames.length; i++) total += this.frameDelay(i);
+    return total / 1000;
+  }
 }
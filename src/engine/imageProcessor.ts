@@ -1,42 +1,11 @@
 import { GifPlayer } from './gifPlayer';
-import { render3DToCanvas, has3DObject } from './objectLoader';
-import type { MediaTransform } from '../types';
+import { render3DToCanvas, has3DObject, TURNTABLE_DURATION } from './objectLoader';
 
 let cachedImage: HTMLImageElement | null = null;
 let cachedVideo: HTMLVideoElement | null = null;
 let cachedDataUrl: string | null = null;
 let gifPlayer: GifPlayer | null = null;
 
-// Reusable offscreen canvas
-let offCanvas: HTMLCanvasElement | null = null;
-let offCtx: CanvasRenderingContext2D | null = null;
-let offW = 0;
-let offH = 0;
-
-function getOffscreenCtx(w: number, h: number): CanvasRenderingContext2D {
-  if (!offCanvas || offW !== w || offH !== h) {
-    offCanvas = document.createElement('canvas');
-    offCanvas.width = w;
-    offCanvas.height = h;
-    offCtx = offCanvas.getContext('2d', { willReadFrequently: true })!;
-    offW = w;
-    offH = h;
-  }
-  return offCtx!;
-}
-
-// Reusable grid buffer
-let cachedGrid: Float32Array | null = null;
-let cachedGridSize = 0;
-
-function getGridBuffer(size: number): Float32Array {
-  if (!cachedGrid || cachedGridSize !== size) {
-    cachedGrid = new Float32Array(size);
-    cachedGridSize = size;
-  }
-  return cachedGrid;
-}
-
 function clearGif(): void {
   gifPlayer = null;
 }
@@ -128,17 +97,17 @@ export function getMediaElement(): MediaElement | null {
   return cachedImage;
 }
 
-/** Get the media element including 3D render target */
+/** Get the media element including 3D render target, posed for a timeline position (seconds) */
 export function getMediaElementFor3D(
   canvasW: number,
   canvasH: number,
-  autoRotate = true,
+  time = 0,
   manualRotX = 0,
   manualRotY = 0,
 ): MediaElement | null {
   if (has3DObject()) {
     const renderSize = Math.min(512, Math.max(canvasW, canvasH));
-    return render3DToCanvas(renderSize, renderSize, autoRotate, manualRotX, manualRotY);
+    return render3DToCanvas(renderSize, renderSize, time, manualRotX, manualRotY);
   }
   return getMediaElement();
 }
@@ -147,9 +116,10 @@ export function isAnimating(): boolean {
   return cachedVideo !== null || (gifPlayer !== null && gifPlayer.frameCount > 1) || has3DObject();
 }
 
-export function advanceGifFrame(): void {
+/** Show the GIF frame for a timeline position (seconds) */
+export function seekGif(time: number): void {
   if (gifPlayer) {
-    gifPlayer.advance();
+    gifPlayer.seek(time);
   }
 }
 
@@ -159,138 +129,56 @@ export function ensureVideoPlaying(): void {
   }
 }
 
-export function clearAllMedia(): void {
-  cachedImage = null;
-  cachedVideo = null;
-  cachedDataUrl = null;
-  clearGif();
-}
-
-function getMediaSize(media: MediaElement): { width: number; height: number } {
-  if (media instanceof HTMLVideoElement) {
-    return { width: media.videoWidth, height: media.videoHeight };
-  }
-  if (media instanceof HTMLCanvasElement) {
-    return { width: media.width, height: media.height };
-  }
-  return { width: media.naturalWidth, height: media.naturalHeight };
-}
-
-export interface BrightnessGridResult {
-  grid: Float32Array;
-  cols: number;
-  rows: number;
-  imgOffsetX: number;
-  imgOffsetY: number;
-  imgDrawWidth: number;
-  imgDrawHeight: number;
+/** Playback position of the video source in seconds */
+export function getVideoTime(): number {
+  return cachedVideo ? cachedVideo.currentTime : 0;
 }
 
 /**
- * Compute brightness grid with optional mediaTransform.
- * mediaTransform scales/offsets the source media independently of the pattern grid.
+ * Pause the video and seek it to a timeline position (seconds, looping).
+ * Resolves once the frame at that position can be drawn.
  */
-export function computeBrightnessGrid(
-  media: MediaElement,
-  canvasWidth: number,
-  canvasHeight: number,
-  spacing: number,
-  contrast: number,
-  brightness: number,
-  mediaTransform?: MediaTransform,
-  bgBrightness = 0,
-): BrightnessGridResult {
-  const { width: mediaW, height: mediaH } = getMediaSize(media);
-  if (mediaW === 0 || mediaH === 0) {
-    return { grid: new Float32Array(0), cols: 0, rows: 0, imgOffsetX: 0, imgOffsetY: 0, imgDrawWidth: 0, imgDrawHeight: 0 };
-  }
-
-  // Compute base aspect-ratio-preserving fit
-  const imgAspect = mediaW / mediaH;
-  const canvasAspect = canvasWidth / canvasHeight;
-
-  let drawW: number, drawH: number, offsetX: number, offsetY: number;
-  if (imgAspect > canvasAspect) {
-    drawW = canvasWidth;
-    drawH = canvasWidth / imgAspect;
-    offsetX = 0;
-    offsetY = (canvasHeight - drawH) / 2;
-  } else {
-    drawH = canvasHeight;
-    drawW = canvasHeight * imgAspect;
-    offsetX = (canvasWidth - drawW) / 2;
-    offsetY = 0;
-  }
-
-  // Apply mediaTransform: scale the draw area and offset it
-  const mt = mediaTransform || { scale: 1, offsetX: 0, offsetY: 0 };
-  const scaledDrawW = drawW * mt.scale;
-  const scaledDrawH = drawH * mt.scale;
-  // Center the scaled version, then apply offset
-  const finalOffsetX = offsetX + (drawW - scaledDrawW) / 2 + mt.offsetX;
-  const finalOffsetY = offsetY + (drawH - scaledDrawH) / 2 + mt.offsetY;
+export function seekVideo(time: number): Promise<void> {
+  const video = cachedVideo;
+  if (!video) return Promise.resolve();
+  video.pause();
 
-  // Sample at native media resolution
-  const ctx = getOffscreenCtx(mediaW, mediaH);
-  // Clear previous frame (critical for transparent 3D renders)
-  ctx.clearRect(0, 0, mediaW, mediaH);
-  ctx.drawImage(media, 0, 0, mediaW, mediaH);
-  const imageData = ctx.getImageData(0, 0, mediaW, mediaH);
-  const pixels = imageData.data;
+  const duration = isFinite(video.duration) ? video.duration : 0;
+  const target = duration > 0 ? ((time % duration) + duration) % duration : time;
+  if (!video.seeking && Math.abs(video.currentTime - target) < 1e-4) return Promise.resolve();
 
-  // Viewport -> media coordinate mapping (using scaled/offset draw area)
-  const scaleX = mediaW / scaledDrawW;
-  const scaleY = mediaH / scaledDrawH;
-
-  const cols = Math.ceil(canvasWidth / spacing);
-  const rows = Math.ceil(canvasHeight / spacing);
-  const grid = getGridBuffer(cols * rows);
-
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      const vx = col * spacing + spacing * 0.5;
-      const vy = row * spacing + spacing * 0.5;
-
-      // Map viewport coords -> media coords using the transformed draw area
-      const mx = ((vx - finalOffsetX) * scaleX) | 0;
-      const my = ((vy - finalOffsetY) * scaleY) | 0;
-
-      if (mx < 0 || mx >= mediaW || my < 0 || my >= mediaH) {
-        grid[row * cols + col] = bgBrightness;
-        continue;
-      }
-
-      const idx = (my * mediaW + mx) * 4;
-      const a = pixels[idx + 3];
-
-      // Transparent pixel = background (use bgBrightness)
-      if (a < 10) {
-        grid[row * cols + col] = bgBrightness;
-        continue;
-      }
+  return new Promise(resolve => {
+    const done = () => {
+      video.removeEventListener('seeked', done);
+      video.removeEventListener('error', done);
+      resolve();
+    };
+    video.addEventListener('seeked', done);
+    video.addEventListener('error', done);
+    video.currentTime = target;
+  });
+}
 
-      const r = pixels[idx];
-      const g = pixels[idx + 1];
-      const b = pixels[idx + 2];
+/**
+ * Length of one full loop of the current animated source in seconds, or null
+ * for still images and 3D objects that are not rotating
+ */
+export function getLoopDuration(autoRotate: boolean): number | null {
+  if (has3DObject()) return autoRotate ? TURNTABLE_DURATION : null;
+  if (cachedVideo) return isFinite(cachedVideo.duration) ? cachedVideo.duration : null;
+  if (gifPlayer && gifPlayer.frameCount > 1) return gifPlayer.duration;
+  return null;
+}
 
-      let lum = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-      // Blend with bgBrightness for semi-transparent pixels
-      if (a < 255) {
-        const alpha = a / 255;
-        lum = lum * alpha + bgBrightness * (1 - alpha);
-      }
-      lum = ((lum - 0.5) * contrast) + 0.5 + brightness / 255;
-      grid[row * cols + col] = lum < 0 ? 0 : lum > 1 ? 1 : lum;
-    }
-  }
+/** Frame delays (ms) of the loaded GIF source, or null when the source is not an animated GIF */
+export function getGifFrameDelays(): number[] | null {
+  if (!gifPlayer || gifPlayer.frameCount <= 1 || has3DObject()) return null;
+  return gifPlayer.frameDelays;
+}
 
-  return {
-    grid,
-    cols,
-    rows,
-    imgOffsetX: finalOffsetX,
-    imgOffsetY: finalOffsetY,
-    imgDrawWidth: scaledDrawW,
-    imgDrawHeight: scaledDrawH,
-  };
+export function clearAllMedia(): void {
+  cachedImage = null;
+  cachedVideo = null;
+  cachedDataUrl = null;
+  clearGif();
 }
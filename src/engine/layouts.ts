@@ -0,0 +1,249 @@
+import type { GridLayout, GridSettings, LineScreenSettings } from '../types';
+
+const SQRT2 = Math.SQRT2;
+const SQRT3 = Math.sqrt(3);
+const TWO_PI = Math.PI * 2;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// Phyllotaxis radius step (× spacing) that makes the mean nearest-neighbour distance ≈ spacing
+const PHYLLOTAXIS_SCALE = 0.6;
+// Line-screen samples per spacing along each line
+const LINE_SAMPLES = 4;
+
+/**
+ * Sample positions for one frame in layout coordinates. Brightness is
+ * sampled at each point and one shape is placed there, so every layout
+ * reduces to a point list. Struct-of-arrays so the buffers can be reused.
+ */
+export interface PointList {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  // Neighbourhood indices: lattice column and row, ring and index along it
+  // for concentric rings, or a single row in point order for spirals
+  col: Int32Array;
+  row: Int32Array;
+}
+
+export function createPointList(capacity = 0): PointList {
+  return {
+    count: 0,
+    x: new Float32Array(capacity),
+    y: new Float32Array(capacity),
+    col: new Int32Array(capacity),
+    row: new Int32Array(capacity),
+  };
+}
+
+// Reusable point buffer
+let points: PointList = createPointList();
+
+/** Layouts that radiate from `GridSettings.center` rather than tiling rows */
+export function isRadialLayout(layout: GridLayout): boolean {
+  return layout === 'concentric' || layout === 'spiral' || layout === 'phyllotaxis';
+}
+
+/**
+ * Points for the grid settings in a w × h layout. Neighbouring points are
+ * `density` apart in every layout so shape sizes stay comparable. The screen
+ * angle rotates the layout about the canvas center (lattices) or the chosen
+ * center (radial layouts). Points well outside the layout (1.5 spacings)
+ * are dropped. The returned buffer is shared and only valid until the next call.
+ */
+export function getLayoutPoints(grid: GridSettings, w: number, h: number): PointList {
+  const spacing = grid.density;
+  const angle = (grid.angle * Math.PI) / 180;
+  const cx = isRadialLayout(grid.layout) ? grid.center.x * w : w / 2;
+  const cy = isRadialLayout(grid.layout) ? grid.center.y * h : h / 2;
+
+  const writer = new PointWriter(w, h, spacing * 1.5, cx, cy, angle);
+  switch (grid.layout) {
+    case 'concentric':
+      concentricPoints(writer, spacing);
+      break;
+    case 'spiral':
+      spiralPoints(writer, spacing);
+      break;
+    case 'phyllotaxis':
+      phyllotaxisPoints(writer, spacing);
+      break;
+    default:
+      latticePoints(writer, grid.layout, spacing, w, h, angle);
+  }
+  points.count = writer.count;
+  return points;
+}
+
+/**
+ * Points along the lines of a line screen in a w × h layout, several per
+ * spacing: `row` is the line and `col` the step along it, so each line is a
+ * run of consecutive points, broken where it leaves the layout. Lines are
+ * `density` apart and turned by the screen angle about the canvas center;
+ * circles are centered on `GridSettings.center` and repeat their first point
+ * to close. The returned buffer is shared with getLayoutPoints.
+ */
+export function getLineScreenPoints(grid: GridSettings, screen: LineScreenSettings, w: number, h: number): PointList {
+  const spacing = grid.density;
+  const step = spacing / LINE_SAMPLES;
+  const angle = (grid.angle * Math.PI) / 180;
+  const circles = screen.pattern === 'circles';
+  const cx = circles ? grid.center.x * w : w / 2;
+  const cy = circles ? grid.center.y * h : h / 2;
+
+  const writer = new PointWriter(w, h, spacing * 1.5, cx, cy, angle);
+  if (circles) {
+    const rings = Math.ceil(writer.reach / spacing) + 1;
+    for (let k = 1; k <= rings; k++) {
+      const r = k * spacing;
+      const n = Math.max(8, Math.ceil((TWO_PI * r) / step));
+      for (let i = 0; i <= n; i++) {
+        const t = (i / n) * TWO_PI;
+        writer.add(Math.cos(t) * r, Math.sin(t) * r, i, k);
+      }
+    }
+  } else {
+    const amplitude = screen.pattern === 'waves' ? screen.amplitude * spacing : 0;
+    const k = TWO_PI / (screen.wavelength * spacing);
+    const lines = Math.ceil((writer.reach + amplitude) / spacing);
+    const steps = Math.ceil(writer.reach / step);
+    for (let row = -lines; row <= lines; row++) {
+      for (let col = -steps; col <= steps; col++) {
+        const u = col * step;
+        writer.add(u, row * spacing + amplitude * Math.sin(u * k), col, row);
+      }
+    }
+  }
+  points.count = writer.count;
+  return points;
+}
+
+/** Appends points rotated about (cx, cy), skipping ones outside the padded layout */
+class PointWriter {
+  count = 0;
+  private cos: number;
+  private sin: number;
+
+  constructor(
+    private w: number,
+    private h: number,
+    private pad: number,
+    readonly cx: number,
+    readonly cy: number,
+    angle: number,
+  ) {
+    this.cos = Math.cos(angle);
+    this.sin = Math.sin(angle);
+  }
+
+  /** Distance from the center to the farthest layout corner */
+  get reach(): number {
+    return Math.hypot(Math.max(this.cx, this.w - this.cx), Math.max(this.cy, this.h - this.cy));
+  }
+
+  /** Add the point at offset (u, v) from the center, before rotation */
+  add(u: number, v: number, col: number, row: number): void {
+    const x = this.cx + this.cos * u - this.sin * v;
+    const y = this.cy + this.sin * u + this.cos * v;
+    if (x < -this.pad || x > this.w + this.pad || y < -this.pad || y > this.h + this.pad) return;
+
+    if (this.count >= points.x.length) {
+      const grown = createPointList(Math.max(1024, points.x.length * 2));
+      grown.x.set(points.x);
+      grown.y.set(points.y);
+      grown.col.set(points.col);
+      grown.row.set(points.row);
+      points = grown;
+    }
+    points.x[this.count] = x;
+    points.y[this.count] = y;
+    points.col[this.count] = col;
+    points.row[this.count] = row;
+    this.count++;
+  }
+}
+
+/**
+ * Row-based lattice: every odd row is shifted right by `rowOffset`. The
+ * index range covers the layout rotated by the screen angle; an unrotated
+ * lattice starts at the top-left corner with `ceil(w / colStep)` columns.
+ * Shifted rows start one column earlier so their left edge is covered too.
+ */
+function latticePoints(writer: PointWriter, layout: GridLayout, spacing: number, w: number, h: number, angle: number): void {
+  let colStep = spacing;
+  let rowStep = spacing;
+  let rowOffset = 0;
+  switch (layout) {
+    case 'hex':
+      rowStep = (spacing * SQRT3) / 2;
+      rowOffset = spacing / 2;
+      break;
+    case 'brick':
+      rowOffset = spacing / 2;
+      break;
+    case 'diamond':
+      // Square lattice turned 45°
+      colStep = spacing * SQRT2;
+      rowStep = colStep / 2;
+      rowOffset = colStep / 2;
+      break;
+  }
+
+  // Half extents of the layout seen from the rotated lattice; a rotated
+  // lattice gets one extra cell of margin so shifted rows reach the corners
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const halfW = (w * cos + h * sin) / 2;
+  const halfH = (w * sin + h * cos) / 2;
+  const margin = angle === 0 ? 0 : 1;
+  // Snap float error so an unrotated lattice starts exactly at index 0
+  const col0 = Math.floor((w / 2 - halfW) / colStep + 1e-9) - margin;
+  const row0 = Math.floor((h / 2 - halfH) / rowStep + 1e-9) - margin;
+  const col1 = Math.ceil((w / 2 + halfW) / colStep - 1e-9) + margin;
+  const row1 = Math.ceil((h / 2 + halfH) / rowStep - 1e-9) + margin;
+
+  for (let row = row0; row < row1; row++) {
+    const v = row * rowStep + rowStep * 0.5 - h / 2;
+    const shift = row & 1 ? rowOffset : 0;
+    for (let col = shift ? col0 - 1 : col0; col < col1; col++) {
+      writer.add(col * colStep + colStep * 0.5 + shift - w / 2, v, col, row);
+    }
+  }
+}
+
+/** Rings one spacing apart, each with as many points as fit its circumference */
+function concentricPoints(writer: PointWriter, spacing: number): void {
+  writer.add(0, 0, 0, 0);
+  const rings = Math.ceil(writer.reach / spacing) + 1;
+  for (let k = 1; k <= rings; k++) {
+    const n = Math.round(TWO_PI * k);
+    for (let i = 0; i < n; i++) {
+      const t = (i / n) * TWO_PI;
+      writer.add(Math.cos(t) * k * spacing, Math.sin(t) * k * spacing, i, k);
+    }
+  }
+}
+
+/**
+ * Archimedean spiral with arms one spacing apart, sampled every spacing of
+ * arc length (r = spacing·√(k/π) from the arc length approximation).
+ */
+function spiralPoints(writer: PointWriter, spacing: number): void {
+  const maxR = writer.reach + spacing;
+  for (let k = 0; ; k++) {
+    const r = spacing * Math.sqrt(k / Math.PI);
+    if (r > maxR) break;
+    const t = (r / spacing) * TWO_PI;
+    writer.add(Math.cos(t) * r, Math.sin(t) * r, k, 0);
+  }
+}
+
+/** Vogel's model: golden-angle turns with radius growing as √k */
+function phyllotaxisPoints(writer: PointWriter, spacing: number): void {
+  const c = spacing * PHYLLOTAXIS_SCALE;
+  const maxR = writer.reach + spacing;
+  for (let k = 0; ; k++) {
+    const r = c * Math.sqrt(k);
+    if (r > maxR) break;
+    const t = k * GOLDEN_ANGLE;
+    writer.add(Math.cos(t) * r, Math.sin(t) * r, k, 0);
+  }
+}
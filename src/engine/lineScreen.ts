@@ -0,0 +1,136 @@
+import type { BrightnessMapping } from '../types';
+import type { PointList } from './layouts';
+import type { PathSink } from './svgPath';
+import { MIN_RADIUS, sizeForBrightness } from './cells';
+
+/**
+ * Variable-width line polygons for one frame in layout coordinates.
+ * Struct-of-arrays vertex buffers so they can be reused across frames.
+ */
+export interface LineBuffer {
+  count: number;              // polygons
+  start: Uint32Array;         // first vertex of each polygon; start[count] ends the last one
+  x: Float32Array;
+  y: Float32Array;
+}
+
+export function createLineBuffer(polygons = 0, vertices = 0): LineBuffer {
+  return {
+    count: 0,
+    start: new Uint32Array(polygons + 1),
+    x: new Float32Array(vertices),
+    y: new Float32Array(vertices),
+  };
+}
+
+// Reusable line buffers, one per slot so separations can keep every channel
+const lineBuffers: LineBuffer[] = [];
+// Reusable half-width per point
+let halfWidths = new Float32Array(0);
+
+/**
+ * Buffer for the polygons of `points` samples: runs are separated by at
+ * least one blank sample, so there are fewer polygons than samples and at
+ * most two vertices per sample plus a tip at each end.
+ */
+function getLineBuffer(points: number, slot: number): LineBuffer {
+  let lines = lineBuffers[slot];
+  if (!lines || lines.x.length < points * 4) {
+    lines = lineBuffers[slot] = createLineBuffer(points, points * 4);
+  }
+  lines.count = 0;
+  return lines;
+}
+
+/**
+ * Turn brightness samples along the lines of a line screen (see
+ * getLineScreenPoints) into filled polygons. Each line is a run of points
+ * with the same row and consecutive cols; its width follows the mapped size
+ * at every sample, up to the gap between cells at full size. Where the width
+ * drops to nothing the line breaks, tapering to a point at the blank sample.
+ * The returned buffer is shared and only valid until the next call with the same slot.
+ */
+export function buildLines(
+  grid: Float32Array,
+  points: PointList,
+  spacing: number,
+  mapping: BrightnessMapping,
+  slot = 0,
+): LineBuffer {
+  const out = getLineBuffer(points.count, slot);
+  if (halfWidths.length < points.count) halfWidths = new Float32Array(points.count);
+  const half = halfWidths;
+  const maxHalf = spacing * 0.48;
+  for (let i = 0; i < points.count; i++) {
+    const hw = maxHalf * sizeForBrightness(grid[i], mapping);
+    half[i] = hw < MIN_RADIUS ? 0 : hw;
+  }
+
+  const { x, y } = points;
+  let n = 0;
+  let v = 0;
+  const vertex = (vx: number, vy: number) => {
+    out.x[v] = vx;
+    out.y[v] = vy;
+    v++;
+  };
+
+  let first = 0;
+  for (let i = 1; i <= points.count; i++) {
+    if (i < points.count && points.row[i] === points.row[i - 1] && points.col[i] === points.col[i - 1] + 1) continue;
+    const last = i - 1;
+    for (let j = first; j <= last && last > first; j++) {
+      if (half[j] === 0) continue;
+      let k = j;
+      while (k < last && half[k + 1] > 0) k++;
+
+      out.start[n++] = v;
+      if (j > first) vertex(x[j - 1], y[j - 1]);
+      // One side forward, the other back, offset along the normal of the neighbours' chord
+      for (let side = 1; side >= -1; side -= 2) {
+        for (let m = side > 0 ? j : k; side > 0 ? m <= k : m >= j; m += side) {
+          const tx = x[Math.min(m + 1, last)] - x[Math.max(m - 1, first)];
+          const ty = y[Math.min(m + 1, last)] - y[Math.max(m - 1, first)];
+          const s = (side * half[m]) / (Math.hypot(tx, ty) || 1);
+          vertex(x[m] - ty * s, y[m] + tx * s);
+        }
+        if (side > 0 && k < last) vertex(x[k + 1], y[k + 1]);
+      }
+      j = k;
+    }
+    first = i;
+  }
+  out.start[n] = v;
+  out.count = n;
+  return out;
+}
+
+/**
+ * Trace every polygon as a closed subpath, skipping ones entirely outside
+ * `bounds`. Neighbouring lines may overlap at full width, and every polygon
+ * winds the same way, so fill with the nonzero rule.
+ */
+export function traceLines(
+  sink: PathSink,
+  lines: LineBuffer,
+  bounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null,
+): void {
+  const { start, x, y } = lines;
+  for (let p = 0; p < lines.count; p++) {
+    const a = start[p];
+    const b = start[p + 1];
+    if (bounds) {
+      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      for (let i = a; i < b; i++) {
+        if (x[i] < minX) minX = x[i];
+        if (x[i] > maxX) maxX = x[i];
+        if (y[i] < minY) minY = y[i];
+        if (y[i] > maxY) maxY = y[i];
+      }
+      if (maxX < bounds.minX || minX > bounds.maxX || maxY < bounds.minY || minY > bounds.maxY) continue;
+    }
+    sink.moveTo(x[a], y[a]);
+    for (let i = a + 1; i < b; i++) sink.lineTo(x[i], y[i]);
+    sink.closePath();
+  }
+}
@@ -6,9 +6,11 @@ let camera: THREE.PerspectiveCamera | null = null;
 let currentMesh: THREE.Mesh | null = null;
 let renderTarget: HTMLCanvasElement | null = null;
 
-// Auto-rotation state
-let autoRotationY = 0;
-const ROTATION_SPEED = 0.005;
+// Auto-rotation speed in radians per second of timeline time
+const ROTATION_SPEED = 0.3;
+
+/** Seconds for one full auto-rotation turn */
+export const TURNTABLE_DURATION = (Math.PI * 2) / ROTATION_SPEED;
 
 function ensureRenderer(width: number, height: number): void {
   if (!renderer) {
@@ -222,13 +224,16 @@ export async function load3DObject(file: File): Promise<void> {
   }
 
   currentMesh = new THREE.Mesh(geometry, material);
-  autoRotationY = 0;
 }
 
+/**
+ * Render the loaded object with the turntable angle for a timeline position
+ * (seconds) plus the manual rotation.
+ */
 export function render3DToCanvas(
   width: number,
   height: number,
-  autoRotate: boolean,
+  time: number,
   manualRotX: number,
   manualRotY: number,
 ): HTMLCanvasElement | null {
@@ -243,12 +248,9 @@ export function render3DToCanvas(
     fitCameraToMesh(currentMesh);
   }
 
-  // Apply rotation: auto-rotation accumulates, manual is additive
-  if (autoRotate) {
-    autoRotationY += ROTATION_SPEED;
-  }
+  // Apply rotation: turntable angle follows the timeline, manual is additive
   currentMesh.rotation.x = manualRotX;
-  currentMesh.rotation.y = autoRotationY + manualRotY;
+  currentMesh.rotation.y = time * ROTATION_SPEED + manualRotY;
 
   renderer.render(scene, camera);
 
@@ -0,0 +1,344 @@
+import type { FrameGeometry } from './cells';
+import { cellExtent, getRampLayers, getVisibleBounds } from './cells';
+import { parseSvgPath, tracePath } from './svgPath';
+import type { PathCommand, PathSink } from './svgPath';
+import { isParametricShape, traceCircle, traceParametric, traceSquare, traceTriangleUp } from './shapeGeometry';
+import { hexToRgb } from '../utils/color';
+import { getFrameLayers } from './separations';
+import { traceLines } from './lineScreen';
+import type { ShapeType } from '../types';
+
+export const POINTS_PER_INCH = 72;
+export const POINTS_PER_MM = 72 / 25.4;
+
+/** Page setup in PDF points */
+export interface PdfPageOptions {
+  width: number;       // trim size
+  height: number;
+  margin: number;      // inset of the artwork from the trim edge
+  bleed: number;       // extra paper around the trim edge
+}
+
+/**
+ * Box the artwork is fitted into, in points from the bottom-left of the media
+ * box. Without margins the artwork runs into the bleed so it survives trimming.
+ */
+export function getPdfContentBox(page: PdfPageOptions): { x: number; y: number; width: number; height: number } {
+  if (page.margin <= 0) {
+    return { x: 0, y: 0, width: page.width + 2 * page.bleed, height: page.height + 2 * page.bleed };
+  }
+  const inset = page.bleed + page.margin;
+  return {
+    x: inset,
+    y: inset,
+    width: Math.max(1, page.width - 2 * page.margin),
+    height: Math.max(1, page.height - 2 * page.margin),
+  };
+}
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Baseline offset below the glyph center, approximating canvas textBaseline 'middle'
+const HELVETICA_MIDDLE = 0.3;
+
+/** Trim trailing zeros from a fixed-point number */
+function num(v: number, digits = 2): string {
+  return String(+v.toFixed(digits) || 0);
+}
+
+/** PDF path operators, appended to `out` */
+class PdfPathSink implements PathSink {
+  constructor(public out: string[]) {}
+
+  moveTo(x: number, y: number): void {
+    this.out.push(`${num(x)} ${num(y)} m`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.out.push(`${num(x)} ${num(y)} l`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.out.push(`${num(cp1x)} ${num(cp1y)} ${num(cp2x)} ${num(cp2y)} ${num(x)} ${num(y)} c`);
+  }
+
+  closePath(): void {
+    this.out.push('h');
+  }
+}
+
+// PDF line cap and join style numbers
+const LINE_CAPS = { butt: 0, round: 1, square: 2 } as const;
+const LINE_JOINS = { miter: 0, round: 1, bevel: 2 } as const;
+
+function rgbOperator(color: string | number, op: 'rg' | 'RG'): string {
+  const [r, g, b] = typeof color === 'string' ? hexToRgb(color) : [color >> 16, (color >> 8) & 255, color & 255];
+  return `${num(r / 255)} ${num(g / 255)} ${num(b / 255)} ${op}`;
+}
+
+interface PdfGlyph {
+  literal: string;     // WinAnsi string literal
+  width: number;       // advance in em
+}
+
+/** WinAnsi string literal for a character, or null when Helvetica cannot show it */
+function winAnsiLiteral(char: string): PdfGlyph | null {
+  const code = char.codePointAt(0);
+  if (code === undefined || code < 32 || code > 255 || (code > 126 && code < 160)) return null;
+  const escaped = code === 40 || code === 41 || code === 92
+    ? '\\' + char
+    : code > 126 ? '\\' + code.toString(8) : char;
+  const width = code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  return { literal: `(${escaped})`, width: width / 1000 };
+}
+
+async function deflate(content: string): Promise<ArrayBuffer | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Response(stream).arrayBuffer();
+}
+
+/** Serialize PDF objects with a cross-reference table */
+function assemblePdf(objects: (string | Uint8Array)[][]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+
+  // Binary comment marks the file as 8-bit for transfer tools
+  push('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    push(`${i + 1} 0 obj\n`);
+    body.forEach(push);
+    push('\nendobj\n');
+  });
+
+  const xrefOffset = offset;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const o of offsets) push(`${String(o).padStart(10, '0')} 00000 n \n`);
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts.map(p => p.buffer as ArrayBuffer), { type: 'application/pdf' });
+}
+
+async function streamObject(content: string, extraDict = ''): Promise<(string | Uint8Array)[]> {
+  const compressed = await deflate(content);
+  if (compressed) {
+    return [
+      `<< /Length ${compressed.byteLength} /Filter /FlateDecode${extraDict} >>\nstream\n`,
+      new Uint8Array(compressed),
+      '\nendstream',
+    ];
+  }
+  return [`<< /Length ${content.length}${extraDict} >>\nstream\n`, content, '\nendstream'];
+}
+
+interface PdfCustomShape {
+  commands: PathCommand[];
+  vb: { width: number; height: number };
+}
+
+/** Fill operators for every visible cell of a single-layer frame, grouped per color */
+function writeCells(
+  ops: string[],
+  frame: FrameGeometry,
+  shape: ShapeType,
+  glyph: PdfGlyph | null,
+  custom: PdfCustomShape | null,
+): void {
+  const { width: w, height: h, view, cells, angle, outline } = frame;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const { minX, minY, maxX, maxY } = getVisibleBounds(view, w, h);
+  // Shape operators per fill color (-1: foreground) and outline width, so each is set once
+  const groups = new Map<string, { color: number; width: number; ops: string[] }>();
+  const opsFor = (i: number): string[] => {
+    const color = frame.cellColors ? cells.color[i] : -1;
+    const width = outline ? cells.stroke[i] : 0;
+    const key = `${color} ${num(width)}`;
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = { color, width, ops: [] }));
+    return group.ops;
+  };
+  const sink = new PdfPathSink([]);
+  const extent = cellExtent(angle);
+  let hasPath = false;
+
+  for (let i = 0; i < cells.count; i++) {
+    const cx = cells.x[i];
+    const cy = cells.y[i];
+    const r = cells.r[i];
+    const e = r * extent + (outline ? cells.stroke[i] / 2 : 0);
+    if (cx + e < minX || cx - e > maxX || cy + e < minY || cy - e > maxY) continue;
+    const target = opsFor(i);
+    sink.out = target;
+
+    switch (shape) {
+      case 'circle':
+        traceCircle(sink, cx, cy, r);
+        hasPath = true;
+        break;
+      case 'square':
+        traceSquare(sink, cx, cy, r, angle);
+        hasPath = true;
+        break;
+      case 'triangle-up':
+        traceTriangleUp(sink, cx, cy, r, angle);
+        hasPath = true;
+        break;
+      case 'text': {
+        const size = r * 2;
+        if (size < 1) break;
+        const { literal, width } = glyph!;
+        // Offset from the cell center to the glyph origin, rotated with the shape
+        const ox = -(width * size) / 2;
+        const oy = size * HELVETICA_MIDDLE;
+        // The text matrix flips y back so glyphs stand upright in the y-down layout
+        target.push(`BT /F1 ${num(size)} Tf ${outline ? 1 : 0} Tr ${num(cos, 6)} ${num(sin, 6)} ${num(sin, 6)} ${num(-cos, 6)} ` +
+          `${num(cx + cos * ox - sin * oy)} ${num(cy + sin * ox + cos * oy)} Tm ${literal} Tj ET`);
+        break;
+      }
+      default:
+        if (!isParametricShape(shape)) break;
+        traceParametric(sink, shape, cx, cy, r, angle, frame.shapeParams);
+        hasPath = true;
+        break;
+      case 'custom': {
+        const { vb } = custom!;
+        const s = (r * 2) / Math.max(vb.width, vb.height);
+        const hw = (vb.width * s) / 2;
+        const hh = (vb.height * s) / 2;
+        // Line widths inside the form are in its own, scaled units
+        target.push(`q ${num(s * cos, 6)} ${num(s * sin, 6)} ${num(-s * sin, 6)} ${num(s * cos, 6)} ` +
+          `${num(cx - cos * hw + sin * hh)} ${num(cy - sin * hw - cos * hh)} cm ` +
+          `${outline ? `${num(cells.stroke[i] / s, 4)} w ` : ''}/Shape Do Q`);
+        break;
+      }
+    }
+  }
+  for (const { color, width, ops: groupOps } of groups.values()) {
+    if (color >= 0) ops.push(rgbOperator(color, outline ? 'RG' : 'rg'));
+    if (outline) ops.push(`${num(width, 4)} w`);
+    for (const op of groupOps) ops.push(op);
+    if (hasPath) ops.push(outline ? 'S' : 'f');
+  }
+}
+
+/**
+ * Write a single-page vector PDF. Shapes become filled paths traced from the
+ * same geometry the canvas draws; text uses the built-in Helvetica font and
+ * custom SVG shapes are placed as one reusable form XObject.
+ * Characters Helvetica cannot encode (outside Latin-1) fall back to circles.
+ * Separation layers are composited with a multiply or screen blend mode;
+ * shape ramp bands are written one after another, each with its own shape.
+ * Outlines are stroked with the frame's cap and join; line screens are
+ * filled as one nonzero path per layer.
+ */
+export async function buildPdf(frame: FrameGeometry, page: PdfPageOptions): Promise<Blob> {
+  const { width: w, view, colors } = frame;
+  const mediaW = page.width + 2 * page.bleed;
+  const mediaH = page.height + 2 * page.bleed;
+  const box = getPdfContentBox(page);
+  const scale = box.width / w;
+
+  const lineScreen = getFrameLayers(frame).some(layer => layer.lines);
+  const usesCustom = !lineScreen && (frame.shape === 'custom' || !!frame.ramp?.some(step => step.shape === 'custom'));
+  const custom = usesCustom && frame.customSvgPath && frame.customSvgViewBox
+    ? { commands: parseSvgPath(frame.customSvgPath), vb: frame.customSvgViewBox }
+    : null;
+  let usesFont = false;
+  const writeLayer = (layer: FrameGeometry) => {
+    if (layer.lines) {
+      const before = ops.length;
+      traceLines(new PdfPathSink(ops), layer.lines, getVisibleBounds(view, w, layer.height));
+      if (ops.length > before) ops.push('f');
+      return;
+    }
+    for (const band of getRampLayers(layer)) {
+      const glyph = band.shape === 'text' ? winAnsiLiteral(band.customTextChar) : null;
+      const shape = (band.shape === 'custom' && !custom) || (band.shape === 'text' && !glyph)
+        ? 'circle'
+        : band.shape;
+      if (glyph) usesFont = true;
+      writeCells(ops, band, shape, glyph, custom);
+    }
+  };
+
+  const ops: string[] = [];
+  ops.push('q');
+  ops.push(rgbOperator(colors.background, 'rg'));
+  ops.push(`0 0 ${num(mediaW)} ${num(mediaH)} re f`);
+  // Clip to the content box, then map layout pixels (y down) onto it
+  ops.push(`${num(box.x)} ${num(box.y)} ${num(box.width)} ${num(box.height)} re W n`);
+  ops.push(`${num(scale, 6)} 0 0 ${num(-scale, 6)} ${num(box.x)} ${num(box.y + box.height)} cm`);
+  ops.push(`${num(view.scale, 6)} 0 0 ${num(view.scale, 6)} ${num(view.offsetX)} ${num(view.offsetY)} cm`);
+  const { outline } = frame;
+  const paintOp = outline ? 'RG' : 'rg';
+  if (outline) ops.push(`${LINE_CAPS[outline.cap]} J ${LINE_JOINS[outline.join]} j`);
+  let extGState = '';
+
+  if (frame.separation) {
+    // Each ink is filled in its own color and blended onto the paper like the canvas
+    const blend = frame.separation.blend === 'multiply' ? 'Multiply' : 'Screen';
+    extGState = `<< /Type /ExtGState /BM /${blend} >>`;
+    for (const layer of getFrameLayers(frame)) {
+      ops.push('q /Blend gs', rgbOperator(layer.colors.foreground, paintOp));
+      writeLayer(layer);
+      ops.push('Q');
+    }
+  } else {
+    ops.push(rgbOperator(colors.foreground, paintOp));
+    writeLayer(frame);
+  }
+  ops.push('Q');
+
+  const resources: string[] = [];
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [],  // page, filled in once resource object numbers are known
+    await streamObject(ops.join('\n')),
+  ];
+
+  if (extGState) {
+    objects.push([extGState]);
+    resources.push(`/ExtGState << /Blend ${objects.length} 0 R >>`);
+  }
+  if (usesFont) {
+    objects.push(['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>']);
+    resources.push(`/Font << /F1 ${objects.length} 0 R >>`);
+  }
+  if (custom) {
+    const shapeOps: string[] = [];
+    tracePath(new PdfPathSink(shapeOps), custom.commands);
+    shapeOps.push(outline ? 'S' : 'f');
+    objects.push(await streamObject(
+      shapeOps.join('\n'),
+      ` /Type /XObject /Subtype /Form /BBox [0 0 ${num(custom.vb.width)} ${num(custom.vb.height)}]`,
+    ));
+    resources.push(`/XObject << /Shape ${objects.length} 0 R >>`);
+  }
+
+  const trim = `[${num(page.bleed)} ${num(page.bleed)} ${num(page.bleed + page.width)} ${num(page.bleed + page.height)}]`;
+  objects[2] = [
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(mediaW)} ${num(mediaH)}] ` +
+    `/BleedBox [0 0 ${num(mediaW)} ${num(mediaH)}] /TrimBox ${trim} ` +
+    `/Resources << ${resources.join(' ')} >> /Contents 4 0 R >>`,
+  ];
+
+  return assemblePdf(objects);
+}
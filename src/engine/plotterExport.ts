@@ -0,0 +1,444 @@
+import type { FrameGeometry } from './cells';
+import { cellExtent, getRampLayers, getVisibleBounds } from './cells';
+import { parseSvgPath, tracePath, TransformedSink } from './svgPath';
+import type { PathSink } from './svgPath';
+import { isParametricShape, traceCircle, traceParametric, traceSquare, traceTriangleUp } from './shapeGeometry';
+import { getFrameLayers } from './separations';
+import { traceLines } from './lineScreen';
+
+export type PlotterFormat = 'gcode' | 'hpgl';
+/** How a filled shape is turned into strokes */
+export type PlotterFill = 'concentric' | 'hatch';
+
+export interface PlotterOptions {
+  format: PlotterFormat;
+  width: number;           // drawing area in mm
+  height: number;
+  fill: PlotterFill;
+  penWidth: number;        // mm; line spacing for fills and inset of outlines
+  hatchAngle: number;      // degrees
+  optimizeTravel: boolean;
+  penUp: string;           // G-code only
+  penDown: string;
+  feedRate: number;        // G-code drawing speed, mm/min
+}
+
+/** Pen lift commands for common G-code machines */
+export const GCODE_PEN_COMMANDS = {
+  pen: { penUp: 'G0 Z5', penDown: 'G1 Z0 F1000' },
+  laser: { penUp: 'M5', penDown: 'M3 S1000' },
+};
+
+/** HPGL plotter units per mm */
+const HPGL_UNITS_PER_MM = 40;
+/** Max deviation (mm) when flattening curves into line segments */
+const FLATTEN_TOLERANCE = 0.05;
+
+/** A stroke drawn with the pen down, as flat [x0, y0, x1, y1, ...] in mm */
+type Polyline = number[];
+
+/** Strokes belonging to one cell; cells are the unit of travel ordering */
+interface StrokeGroup {
+  x: number;
+  y: number;
+  strokes: Polyline[];
+}
+
+type ShapeTracer = (sink: PathSink, cx: number, cy: number, r: number) => void;
+
+/** Collects traced outlines as polylines, flattening cubic curves */
+class PolylineSink implements PathSink {
+  readonly lines: Polyline[] = [];
+  private current: Polyline | null = null;
+  private x = 0;
+  private y = 0;
+  private startX = 0;
+  private startY = 0;
+
+  moveTo(x: number, y: number): void {
+    this.current = [x, y];
+    this.lines.push(this.current);
+    this.x = this.startX = x;
+    this.y = this.startY = y;
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.current) this.moveTo(this.x, this.y);
+    this.current!.push(x, y);
+    this.x = x;
+    this.y = y;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    const x0 = this.x;
+    const y0 = this.y;
+    // Control polygon length bounds the curve length; segment count grows with its square root
+    const length = Math.hypot(cp1x - x0, cp1y - y0) + Math.hypot(cp2x - cp1x, cp2y - cp1y) + Math.hypot(x - cp2x, y - cp2y);
+    const n = Math.min(64, Math.max(2, Math.ceil(Math.sqrt(length / FLATTEN_TOLERANCE))));
+    for (let i = 1; i <= n; i++) {
+      const t = i / n;
+      const mt = 1 - t;
+      const a = mt * mt * mt;
+      const b = 3 * mt * mt * t;
+      const c = 3 * mt * t * t;
+      const d = t * t * t;
+      this.lineTo(a * x0 + b * cp1x + c * cp2x + d * x, a * y0 + b * cp1y + c * cp2y + d * y);
+    }
+  }
+
+  closePath(): void {
+    if (this.current && (this.x !== this.startX || this.y !== this.startY)) {
+      this.current.push(this.startX, this.startY);
+    }
+    this.current = null;
+    this.x = this.startX;
+    this.y = this.startY;
+  }
+}
+
+/**
+ * Outline tracer for the frame's shape, rotated by the screen angle; text
+ * has no stroke font and plots as circles
+ */
+function getShapeTracer(frame: FrameGeometry): ShapeTracer {
+  const { angle } = frame;
+  switch (frame.shape) {
+    case 'square':
+      return (sink, cx, cy, r) => traceSquare(sink, cx, cy, r, angle);
+    case 'triangle-up':
+      return (sink, cx, cy, r) => traceTriangleUp(sink, cx, cy, r, angle);
+    case 'custom': {
+      const vb = frame.customSvgViewBox;
+      if (!frame.customSvgPath || !vb) return traceCircle;
+      const commands = parseSvgPath(frame.customSvgPath);
+      const size = Math.max(vb.width, vb.height);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return (sink, cx, cy, r) => {
+        const s = (r * 2) / size;
+        // Center the viewBox on the origin, then rotate and move onto the cell
+        const rotated = new TransformedSink(sink, cos, sin, -sin, cos, cx, cy);
+        tracePath(rotated, commands, s, (-vb.width * s) / 2, (-vb.height * s) / 2);
+      };
+    }
+    default:
+      if (isParametricShape(frame.shape)) {
+        const shape = frame.shape;
+        return (sink, cx, cy, r) => traceParametric(sink, shape, cx, cy, r, angle, frame.shapeParams);
+      }
+      return traceCircle;
+  }
+}
+
+/** The shape's outline as a single line, for outline mode */
+function outlineStroke(trace: ShapeTracer, cx: number, cy: number, r: number): Polyline[] {
+  const sink = new PolylineSink();
+  trace(sink, cx, cy, r);
+  return sink.lines;
+}
+
+/** Nested outlines stepping inward by one pen width, so the rings just touch */
+function concentricFill(trace: ShapeTracer, cx: number, cy: number, r: number, pen: number): Polyline[] {
+  const sink = new PolylineSink();
+  for (let rr = r - pen / 2; rr > pen / 4; rr -= pen) trace(sink, cx, cy, rr);
+  return sink.lines;
+}
+
+/**
+ * Parallel lines at `angle` spaced one pen width apart, clipped to the
+ * outline (even-odd). Consecutive single-span lines are joined into one
+ * zig-zag so convex shapes plot without lifting the pen.
+ */
+function hatchFill(trace: ShapeTracer, cx: number, cy: number, r: number, pen: number, angle: number): Polyline[] {
+  const outline = new PolylineSink();
+  trace(outline, cx, cy, r - pen / 2);
+  const rings = outline.lines;
+
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Work in a frame rotated so hatch lines are horizontal
+  let minV = Infinity;
+  let maxV = -Infinity;
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i += 2) {
+      const v = -sin * ring[i] + cos * ring[i + 1];
+      if (v < minV) minV = v;
+      if (v > maxV) maxV = v;
+    }
+  }
+
+  const strokes: Polyline[] = [...rings];
+  let zigzag: Polyline | null = null;
+  let reverse = false;
+  for (let v = minV + pen / 2; v < maxV; v += pen) {
+    const hits: number[] = [];
+    for (const ring of rings) {
+      for (let i = 0; i + 3 < ring.length; i += 2) {
+        const u0 = cos * ring[i] + sin * ring[i + 1];
+        const v0 = -sin * ring[i] + cos * ring[i + 1];
+        const u1 = cos * ring[i + 2] + sin * ring[i + 3];
+        const v1 = -sin * ring[i + 2] + cos * ring[i + 3];
+        if ((v0 <= v) !== (v1 <= v)) hits.push(u0 + ((v - v0) / (v1 - v0)) * (u1 - u0));
+      }
+    }
+    hits.sort((a, b) => a - b);
+    if (reverse) hits.reverse();
+    reverse = !reverse;
+
+    const spans = hits.length >> 1;
+    for (let i = 0; i < spans; i++) {
+      const ua = hits[i * 2];
+      const ub = hits[i * 2 + 1];
+      const seg = [cos * ua - sin * v, sin * ua + cos * v, cos * ub - sin * v, sin * ub + cos * v];
+      if (spans === 1 && zigzag) {
+        zigzag.push(...seg);
+      } else {
+        strokes.push(seg);
+        zigzag = spans === 1 ? seg : null;
+      }
+    }
+    if (spans !== 1) zigzag = null;
+  }
+  return strokes;
+}
+
+/**
+ * Greedy nearest-neighbour ordering of cells to cut pen-up travel. Cells are
+ * bucketed on a grid of `bucketSize` so each lookup only scans nearby rings.
+ */
+function orderByNearest(groups: StrokeGroup[], bucketSize: number): StrokeGroup[] {
+  if (groups.length < 3) return groups;
+  let maxX = 0;
+  let maxY = 0;
+  for (const g of groups) {
+    if (g.x > maxX) maxX = g.x;
+    if (g.y > maxY) maxY = g.y;
+  }
+  const cols = 1 + Math.floor(maxX / bucketSize);
+  const rows = 1 + Math.floor(maxY / bucketSize);
+  const buckets: number[][] = Array.from({ length: cols * rows }, () => []);
+  const bucketOf = (g: StrokeGroup) =>
+    Math.max(0, Math.floor(g.y / bucketSize)) * cols + Math.max(0, Math.floor(g.x / bucketSize));
+  groups.forEach((g, i) => buckets[bucketOf(g)].push(i));
+
+  const ordered: StrokeGroup[] = [];
+  let x = 0;
+  let y = 0;
+  while (ordered.length < groups.length) {
+    const bx = Math.min(cols - 1, Math.max(0, Math.floor(x / bucketSize)));
+    const by = Math.min(rows - 1, Math.max(0, Math.floor(y / bucketSize)));
+    let best = -1;
+    let bestDist = Infinity;
+    const maxRing = Math.max(cols, rows);
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Anything in a farther ring is at least (ring - 1) buckets away
+      if (best >= 0 && bestDist <= ((ring - 1) * bucketSize) ** 2) break;
+      for (let row = by - ring; row <= by + ring; row++) {
+        if (row < 0 || row >= rows) continue;
+        const edge = row === by - ring || row === by + ring;
+        for (let col = bx - ring; col <= bx + ring; col += edge ? 1 : ring * 2) {
+          if (col >= 0 && col < cols) {
+            for (const i of buckets[row * cols + col]) {
+              const d = (groups[i].x - x) ** 2 + (groups[i].y - y) ** 2;
+              if (d < bestDist) {
+                bestDist = d;
+                best = i;
+              }
+            }
+          }
+          if (ring === 0) break;
+        }
+      }
+    }
+
+    const g = groups[best];
+    const bucket = buckets[bucketOf(g)];
+    bucket.splice(bucket.indexOf(best), 1);
+    ordered.push(g);
+    const last = g.strokes[g.strokes.length - 1];
+    x = last[last.length - 2];
+    y = last[last.length - 1];
+  }
+  return ordered;
+}
+
+/** Strokes for every shape that fits entirely inside the drawing area, in mm */
+function buildStrokeGroups(frame: FrameGeometry, options: PlotterOptions): StrokeGroup[] {
+  const { width: w, height: h, view, cells } = frame;
+  const scale = options.width / w;
+  const pen = options.penWidth;
+  const angle = (options.hatchAngle * Math.PI) / 180;
+  const trace = getShapeTracer(frame);
+  const { minX, minY, maxX, maxY } = getVisibleBounds(view, w, h);
+  const extent = cellExtent(frame.angle);
+
+  const groups: StrokeGroup[] = [];
+  for (let i = 0; i < cells.count; i++) {
+    const r0 = cells.r[i];
+    const e = r0 * extent;
+    // A pen cannot be clipped like a fill, so shapes crossing the edge are dropped
+    if (cells.x[i] - e < minX || cells.x[i] + e > maxX || cells.y[i] - e < minY || cells.y[i] + e > maxY) continue;
+
+    const cx = (cells.x[i] * view.scale + view.offsetX) * scale;
+    const cy = (cells.y[i] * view.scale + view.offsetY) * scale;
+    const r = r0 * view.scale * scale;
+    if (r < pen / 4) continue;
+
+    // Outlines are traced once; filled shapes with no room for a ring become a single dot
+    const strokes = frame.outline
+      ? outlineStroke(trace, cx, cy, r)
+      : r < pen * 0.75
+        ? [[cx, cy, cx, cy]]
+        : options.fill === 'hatch'
+          ? hatchFill(trace, cx, cy, r, pen, angle)
+          : concentricFill(trace, cx, cy, r, pen);
+    if (strokes.length > 0) groups.push({ x: cx, y: cy, strokes });
+  }
+  return groups;
+}
+
+/**
+ * Clip a closed polygon (flat [x0, y0, ...], not repeating the start) to the
+ * rectangle 0-w × 0-h (Sutherland–Hodgman). Where a line leaves the area
+ * the border becomes its cut end.
+ */
+function clipPolygon(polygon: Polyline, w: number, h: number): Polyline {
+  let out = polygon;
+  const edges: [axis: number, limit: number, below: boolean][] = [[0, 0, false], [0, w, true], [1, 0, false], [1, h, true]];
+  for (const [axis, limit, below] of edges) {
+    const input = out;
+    const n = input.length / 2;
+    out = [];
+    for (let i = 0, j = n - 1; i < n; j = i++) {
+      const cur = input[i * 2 + axis];
+      const prev = input[j * 2 + axis];
+      const curIn = below ? cur <= limit : cur >= limit;
+      if (curIn !== (below ? prev <= limit : prev >= limit)) {
+        const t = (limit - prev) / (cur - prev);
+        out.push(input[j * 2] + t * (input[i * 2] - input[j * 2]), input[j * 2 + 1] + t * (input[i * 2 + 1] - input[j * 2 + 1]));
+      }
+      if (curIn) out.push(input[i * 2], input[i * 2 + 1]);
+    }
+    if (out.length === 0) break;
+  }
+  return out;
+}
+
+/** Line-screen polygons traced once each in mm, clipped to the drawing area */
+function buildLineGroups(frame: FrameGeometry, options: PlotterOptions): StrokeGroup[] {
+  const { width: w, height: h, view } = frame;
+  const scale = options.width / w;
+  const sink = new PolylineSink();
+  traceLines(sink, frame.lines!, getVisibleBounds(view, w, h));
+
+  const groups: StrokeGroup[] = [];
+  for (const ring of sink.lines) {
+    // Drop the repeated start; it is added back after clipping
+    const polygon = ring.slice(0, -2).map((v, i) => (i & 1 ? v * view.scale + view.offsetY : v * view.scale + view.offsetX) * scale);
+    const stroke = clipPolygon(polygon, options.width, h * scale);
+    if (stroke.length < 6) continue;
+    stroke.push(stroke[0], stroke[1]);
+    groups.push({ x: stroke[0], y: stroke[1], strokes: [stroke] });
+  }
+  return groups;
+}
+
+/** Strokes drawn with one pen; separations plot one pass per ink */
+interface PlotPass {
+  label: string;
+  groups: StrokeGroup[];
+}
+
+function writeGcode(passes: PlotPass[], options: PlotterOptions, header: string[]): string {
+  const f = (v: number) => String(+v.toFixed(3));
+  const out = header.map(line => `; ${line}`);
+  out.push('G21', 'G90', options.penUp);
+  for (const [k, { label, groups }] of passes.entries()) {
+    // Park and pause so the operator can swap pens
+    if (k > 0) out.push('G0 X0 Y0', `M0 ; load ${label} pen`);
+    writePassGcode(out, groups, options, f);
+  }
+  out.push('G0 X0 Y0', 'M2', '');
+  return out.join('\n');
+}
+
+function writePassGcode(out: string[], groups: StrokeGroup[], options: PlotterOptions, f: (v: number) => string): void {
+  for (const { strokes } of groups) {
+    for (const s of strokes) {
+      out.push(`G0 X${f(s[0])} Y${f(options.height - s[1])}`, options.penDown);
+      for (let i = 2; i < s.length; i += 2) {
+        out.push(`G1 X${f(s[i])} Y${f(options.height - s[i + 1])}${i === 2 ? ` F${options.feedRate}` : ''}`);
+      }
+      out.push(options.penUp);
+    }
+  }
+}
+
+function writeHpgl(passes: PlotPass[], options: PlotterOptions, header: string[]): string {
+  const u = (v: number) => Math.round(v * HPGL_UNITS_PER_MM);
+  const out = header.map(line => `CO "${line.replace(/"/g, "'")}";`);
+  out.push('IN;');
+  // One carousel pen per pass
+  for (const [k, { groups }] of passes.entries()) {
+    out.push(`SP${k + 1};`);
+    for (const { strokes } of groups) {
+      for (const s of strokes) {
+        const points: string[] = [];
+        for (let i = 2; i < s.length; i += 2) points.push(`${u(s[i])},${u(options.height - s[i + 1])}`);
+        out.push(`PU${u(s[0])},${u(options.height - s[1])};`, `PD${points.join(',')};`);
+      }
+    }
+  }
+  out.push('PU0,0;', 'SP0;', '');
+  return out.join('\n');
+}
+
+function strokeStats(groups: StrokeGroup[]): { strokes: number; draw: number; travel: number } {
+  let strokes = 0;
+  let draw = 0;
+  let travel = 0;
+  let x = 0;
+  let y = 0;
+  for (const g of groups) {
+    for (const s of g.strokes) {
+      strokes++;
+      travel += Math.hypot(s[0] - x, s[1] - y);
+      for (let i = 2; i < s.length; i += 2) draw += Math.hypot(s[i] - s[i - 2], s[i + 1] - s[i - 1]);
+      x = s[s.length - 2];
+      y = s[s.length - 1];
+    }
+  }
+  return { strokes, draw, travel };
+}
+
+/**
+ * Convert a frame into pen strokes for a plotter or laser: each shape is
+ * filled with concentric outlines or hatching spaced by the pen width (or
+ * traced once in outline mode; line screens trace the outline of each line,
+ * clipped to the area) and written as G-code (mm) or HPGL, with the
+ * origin at the bottom left.
+ * Separations are plotted one ink after another with a pen change between.
+ */
+export function buildPlot(frame: FrameGeometry, options: PlotterOptions): string {
+  const passes = getFrameLayers(frame).map((layer, k): PlotPass => {
+    let groups = layer.lines
+      ? buildLineGroups(layer, options)
+      : getRampLayers(layer).flatMap(band => buildStrokeGroups(band, options));
+    if (options.optimizeTravel) {
+      groups = orderByNearest(groups, (options.width / frame.width) * frame.view.scale * frame.spacing);
+    }
+    return { label: frame.separation?.layers[k].label.toLowerCase() ?? 'next', groups };
+  });
+
+  const stats = strokeStats(passes.flatMap(pass => pass.groups));
+  const style = getFrameLayers(frame).some(layer => layer.lines)
+    ? 'line screen outlines'
+    : frame.outline ? 'outlines' : `${options.fill} fill`;
+  const header = [
+    `Shapetone plot ${+options.width.toFixed(1)} x ${+options.height.toFixed(1)} mm, pen ${options.penWidth} mm, ${style}`,
+    `${stats.strokes} strokes, ${(stats.draw / 1000).toFixed(1)} m drawn, ${(stats.travel / 1000).toFixed(1)} m travel`,
+  ];
+  return options.format === 'gcode'
+    ? writeGcode(passes, options, header)
+    : writeHpgl(passes, options, header);
+}
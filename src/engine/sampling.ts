@@ -0,0 +1,424 @@
+import type { MediaTransform, SamplingQuality } from '../types';
+import type { PointList } from './layouts';
+
+/**
+ * Anything brightness can be sampled from: the media elements on the main
+ * thread, or a frame transferred to the frame worker as an ImageBitmap
+ */
+export type SampleSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+
+type ReadbackContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Reusable offscreen canvas
+let offCtx: ReadbackContext | null = null;
+let offW = 0;
+let offH = 0;
+
+function getOffscreenCtx(w: number, h: number): ReadbackContext {
+  if (!offCtx || offW !== w || offH !== h) {
+    // Workers have no document; OffscreenCanvas reads back the same way
+    if (typeof document === 'undefined') {
+      offCtx = new OffscreenCanvas(w, h).getContext('2d', { willReadFrequently: true })!;
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = w;
+      canvas.height = h;
+      offCtx = canvas.getContext('2d', { willReadFrequently: true })!;
+    }
+    offW = w;
+    offH = h;
+  }
+  return offCtx;
+}
+
+// Reusable grid buffer
+let cachedGrid: Float32Array | null = null;
+let cachedGridSize = 0;
+
+function getGridBuffer(size: number): Float32Array {
+  if (!cachedGrid || cachedGridSize !== size) {
+    cachedGrid = new Float32Array(size);
+    cachedGridSize = size;
+  }
+  return cachedGrid;
+}
+
+// Reusable per-point RGB buffer
+let cachedColors: Uint8ClampedArray | null = null;
+
+function getColorBuffer(size: number): Uint8ClampedArray {
+  if (!cachedColors || cachedColors.length !== size * 3) {
+    cachedColors = new Uint8ClampedArray(size * 3);
+  }
+  return cachedColors;
+}
+
+// Sub-samples per axis when averaging a cell's color
+const COLOR_SUBSAMPLES = 3;
+
+// Summed-area tables of alpha-weighted luminance and of alpha, (w+1) × (h+1)
+let satLum = new Float64Array(0);
+let satAlpha = new Float64Array(0);
+
+// Gaussian sampling: tiles per axis, σ and reach in cell sizes
+const GAUSSIAN_TILES = 5;
+const GAUSSIAN_SIGMA = 0.5;
+const GAUSSIAN_REACH = 1.5;
+
+// Checked by shape: the element classes do not exist inside a worker
+export function getMediaSize(media: SampleSource): { width: number; height: number } {
+  if ('videoWidth' in media) {
+    return { width: media.videoWidth, height: media.videoHeight };
+  }
+  if ('naturalWidth' in media) {
+    return { width: media.naturalWidth, height: media.naturalHeight };
+  }
+  return { width: media.width, height: media.height };
+}
+
+/** Where the media is drawn, in layout coordinates */
+export interface MediaRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Fit the media inside a w × h layout keeping its aspect ratio, then scale
+ * it about its center and offset it by the media transform
+ */
+export function getMediaRect(
+  mediaW: number,
+  mediaH: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  mediaTransform?: MediaTransform,
+): MediaRect {
+  // Compute base aspect-ratio-preserving fit
+  const imgAspect = mediaW / mediaH;
+  const canvasAspect = canvasWidth / canvasHeight;
+
+  let drawW: number, drawH: number, offsetX: number, offsetY: number;
+  if (imgAspect > canvasAspect) {
+    drawW = canvasWidth;
+    drawH = canvasWidth / imgAspect;
+    offsetX = 0;
+    offsetY = (canvasHeight - drawH) / 2;
+  } else {
+    drawH = canvasHeight;
+    drawW = canvasHeight * imgAspect;
+    offsetX = (canvasWidth - drawW) / 2;
+    offsetY = 0;
+  }
+
+  // Apply mediaTransform: scale the draw area and offset it
+  const mt = mediaTransform || { scale: 1, offsetX: 0, offsetY: 0 };
+  const scaledDrawW = drawW * mt.scale;
+  const scaledDrawH = drawH * mt.scale;
+  // Center the scaled version, then apply offset
+  return {
+    x: offsetX + (drawW - scaledDrawW) / 2 + mt.offsetX,
+    y: offsetY + (drawH - scaledDrawH) / 2 + mt.offsetY,
+    width: scaledDrawW,
+    height: scaledDrawH,
+  };
+}
+
+/** Edge mode: Sobel gradient magnitude of the blurred source instead of luminance */
+export interface EdgeOptions {
+  threshold: number;   // 0-1 of the strongest edge; weaker edges map to 0
+  blur: number;        // layout px, at least half the footprint is used
+}
+
+export interface BrightnessGridResult {
+  grid: Float32Array;         // one value per sample point
+  colors: Uint8ClampedArray | null;  // RGB per sample point when colors were requested
+  imgOffsetX: number;
+  imgOffsetY: number;
+  imgDrawWidth: number;
+  imgDrawHeight: number;
+}
+
+/**
+ * Compute brightness at each sample point (layout coordinates) with optional mediaTransform.
+ * mediaTransform scales/offsets the source media independently of the pattern grid.
+ * With a colorFootprint (layout px) the average color of the square of that
+ * size around each point is returned too, with contrast/brightness applied
+ * per channel; points off the media get the background gray.
+ * Area and Gaussian sampling average luminance over a cell of `footprint`
+ * layout px instead of reading the center pixel. With edge options the grid
+ * holds edge strength over the cell instead (contrast/brightness still apply).
+ */
+export function computeBrightnessGrid(
+  media: SampleSource,
+  canvasWidth: number,
+  canvasHeight: number,
+  points: PointList,
+  contrast: number,
+  brightness: number,
+  mediaTransform?: MediaTransform,
+  bgBrightness = 0,
+  colorFootprint = 0,
+  sampling: SamplingQuality = 'point',
+  footprint = 0,
+  edges: EdgeOptions | null = null,
+): BrightnessGridResult {
+  const { width: mediaW, height: mediaH } = getMediaSize(media);
+  if (mediaW === 0 || mediaH === 0) {
+    return { grid: new Float32Array(0), colors: null, imgOffsetX: 0, imgOffsetY: 0, imgDrawWidth: 0, imgDrawHeight: 0 };
+  }
+
+  const rect = getMediaRect(mediaW, mediaH, canvasWidth, canvasHeight, mediaTransform);
+  const finalOffsetX = rect.x;
+  const finalOffsetY = rect.y;
+  const scaledDrawW = rect.width;
+  const scaledDrawH = rect.height;
+
+  // Sample at native media resolution
+  const ctx = getOffscreenCtx(mediaW, mediaH);
+  // Clear previous frame (critical for transparent 3D renders)
+  ctx.clearRect(0, 0, mediaW, mediaH);
+  ctx.drawImage(media, 0, 0, mediaW, mediaH);
+  const imageData = ctx.getImageData(0, 0, mediaW, mediaH);
+  const pixels = imageData.data;
+
+  // Viewport -> media coordinate mapping (using scaled/offset draw area)
+  const scaleX = mediaW / scaledDrawW;
+  const scaleY = mediaH / scaledDrawH;
+
+  const grid = getGridBuffer(points.count);
+
+  if (edges) {
+    buildLuminanceTables(pixels, mediaW, mediaH);
+    const scale = 1 - edges.threshold;
+    // Taps half a cell apart span the whole cell, so edges between sample points are still found
+    const reach = Math.max(edges.blur, footprint / 2);
+    for (let i = 0; i < points.count; i++) {
+      const mx = (points.x[i] - finalOffsetX) * scaleX;
+      const my = (points.y[i] - finalOffsetY) * scaleY;
+      const e = edgeStrength(mediaW, mediaH, mx, my, reach * scaleX, reach * scaleY, bgBrightness);
+      let v = e <= edges.threshold ? 0 : scale > 0 ? (e - edges.threshold) / scale : 1;
+      v = ((v - 0.5) * contrast) + 0.5 + brightness / 255;
+      grid[i] = v < 0 ? 0 : v > 1 ? 1 : v;
+    }
+  } else if (sampling !== 'point' && footprint > 0) {
+    buildLuminanceTables(pixels, mediaW, mediaH);
+    const fw = footprint * scaleX;
+    const fh = footprint * scaleY;
+    for (let i = 0; i < points.count; i++) {
+      const mx = (points.x[i] - finalOffsetX) * scaleX;
+      const my = (points.y[i] - finalOffsetY) * scaleY;
+      let lum = sampling === 'gaussian'
+        ? gaussianLuminance(mediaW, mediaH, mx, my, fw, fh, bgBrightness)
+        : boxLuminance(mediaW, mediaH, mx - fw / 2, my - fh / 2, mx + fw / 2, my + fh / 2, bgBrightness);
+      lum = ((lum - 0.5) * contrast) + 0.5 + brightness / 255;
+      grid[i] = lum < 0 ? 0 : lum > 1 ? 1 : lum;
+    }
+  } else {
+    for (let i = 0; i < points.count; i++) {
+      const vx = points.x[i];
+      const vy = points.y[i];
+
+      // Map viewport coords -> media coords using the transformed draw area
+      const mx = ((vx - finalOffsetX) * scaleX) | 0;
+      const my = ((vy - finalOffsetY) * scaleY) | 0;
+
+      if (mx < 0 || mx >= mediaW || my < 0 || my >= mediaH) {
+        grid[i] = bgBrightness;
+        continue;
+      }
+
+      const idx = (my * mediaW + mx) * 4;
+      const a = pixels[idx + 3];
+
+      // Transparent pixel = background (use bgBrightness)
+      if (a < 10) {
+        grid[i] = bgBrightness;
+        continue;
+      }
+
+      const r = pixels[idx];
+      const g = pixels[idx + 1];
+      const b = pixels[idx + 2];
+
+      let lum = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+      // Blend with bgBrightness for semi-transparent pixels
+      if (a < 255) {
+        const alpha = a / 255;
+        lum = lum * alpha + bgBrightness * (1 - alpha);
+      }
+      lum = ((lum - 0.5) * contrast) + 0.5 + brightness / 255;
+      grid[i] = lum < 0 ? 0 : lum > 1 ? 1 : lum;
+    }
+  }
+
+  const colors = colorFootprint > 0
+    ? averageColors(pixels, mediaW, mediaH, points, finalOffsetX, finalOffsetY, scaleX, scaleY, colorFootprint, contrast, brightness, bgBrightness)
+    : null;
+
+  return {
+    grid,
+    colors,
+    imgOffsetX: finalOffsetX,
+    imgOffsetY: finalOffsetY,
+    imgDrawWidth: scaledDrawW,
+    imgDrawHeight: scaledDrawH,
+  };
+}
+
+/** Fill the summed-area tables for a frame's RGBA pixels */
+function buildLuminanceTables(pixels: Uint8ClampedArray, w: number, h: number): void {
+  const stride = w + 1;
+  const size = stride * (h + 1);
+  if (satLum.length < size) {
+    satLum = new Float64Array(size);
+    satAlpha = new Float64Array(size);
+  }
+  // Row 0 and column 0 stay zero
+  satLum.fill(0, 0, stride);
+  satAlpha.fill(0, 0, stride);
+  for (let y = 0; y < h; y++) {
+    let rowLum = 0;
+    let rowAlpha = 0;
+    const above = y * stride;
+    const here = above + stride;
+    satLum[here] = 0;
+    satAlpha[here] = 0;
+    for (let x = 0; x < w; x++) {
+      const idx = (y * w + x) * 4;
+      const a = pixels[idx + 3] / 255;
+      rowLum += ((0.299 * pixels[idx] + 0.587 * pixels[idx + 1] + 0.114 * pixels[idx + 2]) / 255) * a;
+      rowAlpha += a;
+      satLum[here + x + 1] = satLum[above + x + 1] + rowLum;
+      satAlpha[here + x + 1] = satAlpha[above + x + 1] + rowAlpha;
+    }
+  }
+}
+
+/**
+ * Mean luminance over a media-pixel rectangle, snapped to whole pixels;
+ * transparent and off-media pixels count as the background. Always covers
+ * at least one pixel so cells smaller than a pixel see the one under them.
+ */
+function boxLuminance(w: number, h: number, x0: number, y0: number, x1: number, y1: number, bg: number): number {
+  let ix0 = Math.round(x0);
+  let iy0 = Math.round(y0);
+  let ix1 = Math.max(Math.round(x1), ix0 + 1);
+  let iy1 = Math.max(Math.round(y1), iy0 + 1);
+  const area = (ix1 - ix0) * (iy1 - iy0);
+  ix0 = ix0 < 0 ? 0 : ix0 > w ? w : ix0;
+  iy0 = iy0 < 0 ? 0 : iy0 > h ? h : iy0;
+  ix1 = ix1 < 0 ? 0 : ix1 > w ? w : ix1;
+  iy1 = iy1 < 0 ? 0 : iy1 > h ? h : iy1;
+  if (ix1 <= ix0 || iy1 <= iy0) return bg;
+
+  const stride = w + 1;
+  const a = iy0 * stride + ix0;
+  const b = iy0 * stride + ix1;
+  const c = iy1 * stride + ix0;
+  const d = iy1 * stride + ix1;
+  const lum = satLum[d] - satLum[b] - satLum[c] + satLum[a];
+  const alpha = satAlpha[d] - satAlpha[b] - satAlpha[c] + satAlpha[a];
+  return (lum + bg * (area - alpha)) / area;
+}
+
+/**
+ * Gaussian-weighted luminance around (cx, cy): the kernel is split into
+ * tiles whose box averages come from the summed-area tables, weighted by
+ * the Gaussian at each tile center.
+ */
+function gaussianLuminance(w: number, h: number, cx: number, cy: number, fw: number, fh: number, bg: number): number {
+  const tileW = (fw * GAUSSIAN_REACH * 2) / GAUSSIAN_TILES;
+  const tileH = (fh * GAUSSIAN_REACH * 2) / GAUSSIAN_TILES;
+  const half = (GAUSSIAN_TILES - 1) / 2;
+  let sum = 0;
+  let weight = 0;
+  for (let ty = 0; ty < GAUSSIAN_TILES; ty++) {
+    const dy = (ty - half) * tileH;
+    for (let tx = 0; tx < GAUSSIAN_TILES; tx++) {
+      const dx = (tx - half) * tileW;
+      // Distance in cell sizes, so the kernel follows non-square pixels
+      const d2 = (dx / fw) ** 2 + (dy / fh) ** 2;
+      const k = Math.exp(-d2 / (2 * GAUSSIAN_SIGMA * GAUSSIAN_SIGMA));
+      const x = cx + dx;
+      const y = cy + dy;
+      sum += k * boxLuminance(w, h, x - tileW / 2, y - tileH / 2, x + tileW / 2, y + tileH / 2, bg);
+      weight += k;
+    }
+  }
+  return sum / weight;
+}
+
+/**
+ * Sobel gradient magnitude (0-1) at (cx, cy). Each of the 3×3 taps is a box
+ * mean of the tap spacing from the summed-area tables, so blurring costs
+ * nothing extra and the taps tile a 3 × 3 spacing window (spacing at least
+ * one pixel).
+ */
+function edgeStrength(w: number, h: number, cx: number, cy: number, spacingX: number, spacingY: number, bg: number): number {
+  const dx = Math.max(1, spacingX);
+  const dy = Math.max(1, spacingY);
+  const tap = (i: number, j: number) => {
+    const x = cx + i * dx;
+    const y = cy + j * dy;
+    return boxLuminance(w, h, x - dx / 2, y - dy / 2, x + dx / 2, y + dy / 2, bg);
+  };
+  const tl = tap(-1, -1), t = tap(0, -1), tr = tap(1, -1);
+  const l = tap(-1, 0), r = tap(1, 0);
+  const bl = tap(-1, 1), b = tap(0, 1), br = tap(1, 1);
+  const gx = tr + 2 * r + br - tl - 2 * l - bl;
+  const gy = bl + 2 * b + br - tl - 2 * t - tr;
+  // A full black-to-white step gives a magnitude of 4
+  const m = Math.sqrt(gx * gx + gy * gy) / 4;
+  return m > 1 ? 1 : m;
+}
+
+function averageColors(
+  pixels: Uint8ClampedArray,
+  mediaW: number,
+  mediaH: number,
+  points: PointList,
+  offsetX: number,
+  offsetY: number,
+  scaleX: number,
+  scaleY: number,
+  footprint: number,
+  contrast: number,
+  brightness: number,
+  bgBrightness: number,
+): Uint8ClampedArray {
+  const out = getColorBuffer(points.count);
+  const bg = bgBrightness * 255;
+  const step = footprint / COLOR_SUBSAMPLES;
+  const start = -footprint / 2 + step / 2;
+  // Same contrast/brightness curve as luminance, per 0-255 channel
+  const adjust = (c: number) => (c - 127.5) * contrast + 127.5 + brightness;
+
+  for (let i = 0; i < points.count; i++) {
+    let r = 0, g = 0, b = 0, weight = 0;
+    for (let sy = 0; sy < COLOR_SUBSAMPLES; sy++) {
+      const my = ((points.y[i] + start + sy * step - offsetY) * scaleY) | 0;
+      if (my < 0 || my >= mediaH) continue;
+      for (let sx = 0; sx < COLOR_SUBSAMPLES; sx++) {
+        const mx = ((points.x[i] + start + sx * step - offsetX) * scaleX) | 0;
+        if (mx < 0 || mx >= mediaW) continue;
+        const idx = (my * mediaW + mx) * 4;
+        const a = pixels[idx + 3] / 255;
+        r += pixels[idx] * a;
+        g += pixels[idx + 1] * a;
+        b += pixels[idx + 2] * a;
+        weight += a;
+      }
+    }
+    const o = i * 3;
+    if (weight < 0.04) {
+      out[o] = out[o + 1] = out[o + 2] = bg;
+      continue;
+    }
+    out[o] = adjust(r / weight);
+    out[o + 1] = adjust(g / weight);
+    out[o + 2] = adjust(b / weight);
+  }
+  return out;
+}
@@ -0,0 +1,83 @@
+import type { SeparationChannel, SeparationMode } from '../types';
+import type { FrameGeometry } from './cells';
+
+export interface SeparationInk {
+  channel: SeparationChannel;
+  label: string;
+  ink: string;                // hex fill of the channel's shapes
+}
+
+/** Channels in print order for each separation mode */
+export const SEPARATION_INKS: Record<Exclude<SeparationMode, 'off'>, SeparationInk[]> = {
+  cmyk: [
+    { channel: 'cyan', label: 'Cyan', ink: '#00ffff' },
+    { channel: 'magenta', label: 'Magenta', ink: '#ff00ff' },
+    { channel: 'yellow', label: 'Yellow', ink: '#ffff00' },
+    { channel: 'black', label: 'Black', ink: '#000000' },
+  ],
+  rgb: [
+    { channel: 'red', label: 'Red', ink: '#ff0000' },
+    { channel: 'green', label: 'Green', ink: '#00ff00' },
+    { channel: 'blue', label: 'Blue', ink: '#0000ff' },
+  ],
+};
+
+/** Inks subtract from white paper, lights add up on black */
+export const SEPARATION_PAPER: Record<Exclude<SeparationMode, 'off'>, string> = {
+  cmyk: '#ffffff',
+  rgb: '#000000',
+};
+
+export type SeparationBlend = 'multiply' | 'screen';
+
+export const SEPARATION_BLEND: Record<Exclude<SeparationMode, 'off'>, SeparationBlend> = {
+  cmyk: 'multiply',
+  rgb: 'screen',
+};
+
+/**
+ * Write one channel's amount (0-1) per point into `out`, from sampled RGB
+ * triplets: ink coverage for CMYK with full black generation (gray comes
+ * from the K screen alone), light intensity for RGB.
+ */
+export function channelAmounts(
+  colors: Uint8ClampedArray,
+  count: number,
+  mode: Exclude<SeparationMode, 'off'>,
+  channel: number,
+  out: Float32Array,
+): void {
+  for (let i = 0; i < count; i++) {
+    const r = colors[i * 3] / 255;
+    const g = colors[i * 3 + 1] / 255;
+    const b = colors[i * 3 + 2] / 255;
+    if (mode === 'rgb') {
+      out[i] = channel === 0 ? r : channel === 1 ? g : b;
+      continue;
+    }
+    const k = 1 - Math.max(r, g, b);
+    if (channel === 3) {
+      out[i] = k;
+    } else {
+      const v = channel === 0 ? r : channel === 1 ? g : b;
+      out[i] = k >= 1 ? 0 : (1 - v - k) / (1 - k);
+    }
+  }
+}
+
+/**
+ * Frames to draw in order: each separation as a single-ink frame with its
+ * own shapes (or lines) and screen angle, or the frame itself when not separated.
+ */
+export function getFrameLayers(frame: FrameGeometry): FrameGeometry[] {
+  if (!frame.separation) return [frame];
+  return frame.separation.layers.map(layer => ({
+    ...frame,
+    angle: layer.angle,
+    colors: { ...frame.colors, foreground: layer.ink },
+    cells: layer.cells,
+    lines: layer.lines,
+    cellColors: false,
+    separation: null,
+  }));
+}
@@ -1,7 +1,17 @@
-import type { ShapeType } from '../types';
+import type { ParametricShape, ShapeParams, ShapeType } from '../types';
+import { DEFAULT_STATE } from '../types';
+import type { CellBuffer, FrameGeometry } from './cells';
+import { getRampLayers } from './cells';
+import { getFrameLayers } from './separations';
+import type { LineBuffer } from './lineScreen';
+import { traceLines } from './lineScreen';
+import { isParametricShape, traceParametric, traceShape, traceSquare, traceTriangleUp } from './shapeGeometry';
+import { packedToHex } from '../utils/color';
 
 const TWO_PI = Math.PI * 2;
-const SQRT3 = Math.sqrt(3);
+
+/** 2D contexts the shapes are drawn on: the page's canvases, or the frame worker's OffscreenCanvas */
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
 
 let cachedSvgPathData: string | null = null;
 let cachedSvgPath2D: Path2D | null = null;
@@ -14,47 +24,83 @@ function getCachedPath2D(pathData: string): Path2D {
   return cachedSvgPath2D!;
 }
 
-export function drawCircle(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number): void {
+export function drawCircle(ctx: Canvas2D, cx: number, cy: number, r: number): void {
   ctx.beginPath();
   ctx.arc(cx, cy, r, 0, TWO_PI);
   ctx.fill();
 }
 
-export function drawSquare(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number): void {
-  ctx.fillRect(cx - r, cy - r, r * 2, r * 2);
+export function drawSquare(ctx: Canvas2D, cx: number, cy: number, r: number, angle = 0): void {
+  if (angle === 0) {
+    ctx.fillRect(cx - r, cy - r, r * 2, r * 2);
+    return;
+  }
+  ctx.beginPath();
+  traceSquare(ctx, cx, cy, r, angle);
+  ctx.fill();
 }
 
-export function drawTriangleUp(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number): void {
-  const h = r * SQRT3;
+export function drawTriangleUp(ctx: Canvas2D, cx: number, cy: number, r: number, angle = 0): void {
   ctx.beginPath();
-  ctx.moveTo(cx, cy - r);
-  ctx.lineTo(cx - h / 2, cy + r);
-  ctx.lineTo(cx + h / 2, cy + r);
-  ctx.closePath();
+  traceTriangleUp(ctx, cx, cy, r, angle);
   ctx.fill();
 }
 
-export function drawText(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, char: string): void {
+export function drawText(
+  ctx: Canvas2D,
+  cx: number,
+  cy: number,
+  r: number,
+  char: string,
+  angle = 0,
+  stroke = false,
+): void {
   const fontSize = r * 2;
   if (fontSize < 1) return;
   ctx.font = `${fontSize}px sans-serif`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  ctx.fillText(char, cx, cy);
+  if (angle === 0) {
+    if (stroke) ctx.strokeText(char, cx, cy);
+    else ctx.fillText(char, cx, cy);
+    return;
+  }
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate(angle);
+  if (stroke) ctx.strokeText(char, 0, 0);
+  else ctx.fillText(char, 0, 0);
+  ctx.restore();
+}
+
+export function drawParametric(
+  ctx: Canvas2D,
+  shape: ParametricShape,
+  cx: number,
+  cy: number,
+  r: number,
+  angle = 0,
+  params: ShapeParams = DEFAULT_STATE.shapeParams,
+): void {
+  ctx.beginPath();
+  traceParametric(ctx, shape, cx, cy, r, angle, params);
+  ctx.fill();
 }
 
 export function drawCustomSvg(
-  ctx: CanvasRenderingContext2D,
+  ctx: Canvas2D,
   cx: number,
   cy: number,
   r: number,
   pathData: string,
   viewBox: { width: number; height: number },
+  angle = 0,
 ): void {
   const path = getCachedPath2D(pathData);
   const scale = (r * 2) / Math.max(viewBox.width, viewBox.height);
   ctx.save();
   ctx.translate(cx, cy);
+  if (angle !== 0) ctx.rotate(angle);
   ctx.scale(scale, scale);
   ctx.translate(-viewBox.width / 2, -viewBox.height / 2);
   ctx.fill(path);
@@ -62,7 +108,7 @@ export function drawCustomSvg(
 }
 
 export function drawShape(
-  ctx: CanvasRenderingContext2D,
+  ctx: Canvas2D,
   shape: ShapeType,
   cx: number,
   cy: number,
@@ -70,23 +116,29 @@ export function drawShape(
   customSvgPath?: string | null,
   customSvgViewBox?: { width: number; height: number } | null,
   customTextChar?: string,
+  angle = 0,
+  shapeParams: ShapeParams = DEFAULT_STATE.shapeParams,
 ): void {
+  if (isParametricShape(shape)) {
+    drawParametric(ctx, shape, cx, cy, r, angle, shapeParams);
+    return;
+  }
   switch (shape) {
     case 'circle':
       drawCircle(ctx, cx, cy, r);
       break;
     case 'square':
-      drawSquare(ctx, cx, cy, r);
+      drawSquare(ctx, cx, cy, r, angle);
       break;
     case 'triangle-up':
-      drawTriangleUp(ctx, cx, cy, r);
+      drawTriangleUp(ctx, cx, cy, r, angle);
       break;
     case 'text':
-      drawText(ctx, cx, cy, r, customTextChar || '*');
+      drawText(ctx, cx, cy, r, customTextChar || '*', angle);
       break;
     case 'custom':
       if (customSvgPath && customSvgViewBox) {
-        drawCustomSvg(ctx, cx, cy, r, customSvgPath, customSvgViewBox);
+        drawCustomSvg(ctx, cx, cy, r, customSvgPath, customSvgViewBox, angle);
       } else {
         drawCircle(ctx, cx, cy, r);
       }
@@ -94,63 +146,280 @@ export function drawShape(
   }
 }
 
-export function batchDrawCircles(
-  ctx: CanvasRenderingContext2D,
-  grid: Float32Array,
-  cols: number,
-  rows: number,
-  spacing: number,
-  maxRadius: number,
-  minScale: number,
-  maxScale: number,
-  invert: boolean,
-): void {
+export function batchDrawCircles(ctx: Canvas2D, cells: CellBuffer): void {
   const batch = new Path2D();
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      let b = grid[row * cols + col];
-      if (invert) b = 1 - b;
-      const size = minScale + b * (maxScale - minScale);
-      const cs = size < 0 ? 0 : size > 1 ? 1 : size;
-      const r = maxRadius * cs;
-      if (r < 0.3) continue;
-      const cx = col * spacing + spacing * 0.5;
-      const cy = row * spacing + spacing * 0.5;
-      batch.moveTo(cx + r, cy);
-      batch.arc(cx, cy, r, 0, TWO_PI);
-    }
+  const { x, y, r } = cells;
+  for (let i = 0; i < cells.count; i++) {
+    batch.moveTo(x[i] + r[i], y[i]);
+    batch.arc(x[i], y[i], r[i], 0, TWO_PI);
+  }
+  ctx.fill(batch);
+}
+
+export function batchDrawSquares(ctx: Canvas2D, cells: CellBuffer, angle = 0): void {
+  const batch = new Path2D();
+  const { x, y, r } = cells;
+  for (let i = 0; i < cells.count; i++) {
+    traceSquare(batch, x[i], y[i], r[i], angle);
+  }
+  ctx.fill(batch);
+}
+
+export function batchDrawTriangles(ctx: Canvas2D, cells: CellBuffer, angle = 0): void {
+  const batch = new Path2D();
+  const { x, y, r } = cells;
+  for (let i = 0; i < cells.count; i++) {
+    traceTriangleUp(batch, x[i], y[i], r[i], angle);
   }
   ctx.fill(batch);
 }
 
-export function batchDrawTriangles(
-  ctx: CanvasRenderingContext2D,
-  grid: Float32Array,
-  cols: number,
-  rows: number,
-  spacing: number,
-  maxRadius: number,
-  minScale: number,
-  maxScale: number,
-  invert: boolean,
+export function batchDrawParametric(
+  ctx: Canvas2D,
+  cells: CellBuffer,
+  shape: ParametricShape,
+  angle = 0,
+  params: ShapeParams = DEFAULT_STATE.shapeParams,
 ): void {
   const batch = new Path2D();
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      let b = grid[row * cols + col];
-      if (invert) b = 1 - b;
-      const size = minScale + b * (maxScale - minScale);
-      const cs = size < 0 ? 0 : size > 1 ? 1 : size;
-      const r = maxRadius * cs;
-      if (r < 0.3) continue;
-      const cx = col * spacing + spacing * 0.5;
-      const cy = row * spacing + spacing * 0.5;
-      const h = r * SQRT3;
-      batch.moveTo(cx, cy - r);
-      batch.lineTo(cx - h / 2, cy + r);
-      batch.lineTo(cx + h / 2, cy + r);
-      batch.closePath();
-    }
+  const { x, y, r } = cells;
+  for (let i = 0; i < cells.count; i++) {
+    traceParametric(batch, shape, x[i], y[i], r[i], angle, params);
   }
   ctx.fill(batch);
 }
+
+/** Draw every cell with the current fill style, batching where the shape allows */
+export function drawCells(
+  ctx: Canvas2D,
+  cells: CellBuffer,
+  shape: ShapeType,
+  customSvgPath?: string | null,
+  customSvgViewBox?: { width: number; height: number } | null,
+  customTextChar?: string,
+  angle = 0,
+  shapeParams: ShapeParams = DEFAULT_STATE.shapeParams,
+): void {
+  if (shape === 'circle') {
+    batchDrawCircles(ctx, cells);
+  } else if (isParametricShape(shape)) {
+    batchDrawParametric(ctx, cells, shape, angle, shapeParams);
+  } else if (shape === 'triangle-up') {
+    batchDrawTriangles(ctx, cells, angle);
+  } else if (shape === 'square' && angle !== 0) {
+    // fillRect cannot rotate; one path beats a transform per square
+    batchDrawSquares(ctx, cells, angle);
+  } else {
+    for (let i = 0; i < cells.count; i++) {
+      drawShape(ctx, shape, cells.x[i], cells.y[i], cells.r[i], customSvgPath, customSvgViewBox, customTextChar, angle, shapeParams);
+    }
+  }
+}
+
+/** Fill every line-screen polygon with the current fill style as one path */
+export function fillLines(ctx: Canvas2D, lines: LineBuffer): void {
+  ctx.beginPath();
+  traceLines(ctx, lines);
+  ctx.fill();
+}
+
+/** Cell indices ordered by fill color, so equal colors are contiguous */
+function sortByColor(cells: CellBuffer): Float64Array {
+  // Pack color and index into one exactly representable float: color · 2^24 + index
+  const keys = new Float64Array(cells.count);
+  for (let i = 0; i < cells.count; i++) keys[i] = cells.color[i] * 0x1000000 + i;
+  keys.sort();
+  return keys;
+}
+
+/**
+ * Cell indices ordered by stroke width, then by color when `colored`, so
+ * cells sharing a stroke are contiguous. Widths come in few distinct values
+ * (see STROKE_LEVELS), so they are bucketed rather than compared.
+ */
+function sortByStroke(cells: CellBuffer, colored: boolean): Uint32Array {
+  const { count, stroke, color } = cells;
+  const ranks = new Map<number, number>();
+  for (let i = 0; i < count; i++) ranks.set(stroke[i], 0);
+  const widths = [...ranks.keys()].sort((a, b) => a - b);
+  widths.forEach((width, k) => ranks.set(width, k));
+
+  // Counting sort by width rank
+  const starts = new Uint32Array(widths.length + 1);
+  const rank = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    rank[i] = ranks.get(stroke[i])!;
+    starts[rank[i] + 1]++;
+  }
+  for (let k = 0; k < widths.length; k++) starts[k + 1] += starts[k];
+  const next = starts.slice(0, widths.length);
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[next[rank[i]]++] = i;
+
+  if (colored) {
+    // Within each width, by color: color · 2^24 + index, as in sortByColor
+    for (let k = 0; k < widths.length; k++) {
+      const keys = new Float64Array(starts[k + 1] - starts[k]);
+      for (let j = 0; j < keys.length; j++) {
+        const i = order[starts[k] + j];
+        keys[j] = color[i] * 0x1000000 + i;
+      }
+      keys.sort();
+      for (let j = 0; j < keys.length; j++) order[starts[k] + j] = keys[j] % 0x1000000;
+    }
+  }
+  return order;
+}
+
+/**
+ * Draw every cell with its own fill from `cells.color`. Cells sharing a
+ * color get one fillStyle change and, where the shape allows, one path.
+ */
+export function drawColoredCells(
+  ctx: Canvas2D,
+  cells: CellBuffer,
+  shape: ShapeType,
+  customSvgPath?: string | null,
+  customSvgViewBox?: { width: number; height: number } | null,
+  customTextChar?: string,
+  angle = 0,
+  shapeParams: ShapeParams = DEFAULT_STATE.shapeParams,
+): void {
+  const order = sortByColor(cells);
+  const { x, y, r, color } = cells;
+  const batchShape = shape === 'custom' && !(customSvgPath && customSvgViewBox) ? 'circle' : shape;
+  const batchable = batchShape === 'circle' || batchShape === 'square' || batchShape === 'triangle-up'
+    || isParametricShape(batchShape);
+
+  let start = 0;
+  while (start < order.length) {
+    const fill = color[order[start] % 0x1000000];
+    let end = start;
+    while (end < order.length && color[order[end] % 0x1000000] === fill) end++;
+    ctx.fillStyle = packedToHex(fill);
+
+    if (batchable) {
+      const batch = new Path2D();
+      for (let k = start; k < end; k++) {
+        const i = order[k] % 0x1000000;
+        if (batchShape === 'circle') {
+          batch.moveTo(x[i] + r[i], y[i]);
+          batch.arc(x[i], y[i], r[i], 0, TWO_PI);
+        } else if (batchShape === 'square') {
+          traceSquare(batch, x[i], y[i], r[i], angle);
+        } else if (isParametricShape(batchShape)) {
+          traceParametric(batch, batchShape, x[i], y[i], r[i], angle, shapeParams);
+        } else {
+          traceTriangleUp(batch, x[i], y[i], r[i], angle);
+        }
+      }
+      ctx.fill(batch);
+    } else {
+      for (let k = start; k < end; k++) {
+        const i = order[k] % 0x1000000;
+        drawShape(ctx, shape, x[i], y[i], r[i], customSvgPath, customSvgViewBox, customTextChar, angle, shapeParams);
+      }
+    }
+    start = end;
+  }
+}
+
+/**
+ * Stroke every cell's outline at its own width (`cells.stroke`) with the
+ * current stroke style, or with its own color from `cells.color` when
+ * `colored`. Cells are grouped by width and color, and each group is one path.
+ */
+export function strokeCells(
+  ctx: Canvas2D,
+  cells: CellBuffer,
+  shape: ShapeType,
+  customSvgPath?: string | null,
+  customSvgViewBox?: { width: number; height: number } | null,
+  customTextChar?: string,
+  angle = 0,
+  shapeParams: ShapeParams = DEFAULT_STATE.shapeParams,
+  colored = false,
+): void {
+  const { x, y, r, stroke, color } = cells;
+  const pathShape = shape === 'custom' && !(customSvgPath && customSvgViewBox) ? 'circle' : shape;
+  const order = sortByStroke(cells, colored);
+  let batch: Path2D | null = null;
+  let width = -1;
+  let fill = -1;
+
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    if (stroke[i] !== width || (colored && color[i] !== fill)) {
+      if (batch) ctx.stroke(batch);
+      batch = null;
+      width = stroke[i];
+      ctx.lineWidth = width;
+      if (colored && color[i] !== fill) {
+        fill = color[i];
+        ctx.strokeStyle = packedToHex(fill);
+      }
+    }
+    if (pathShape === 'text') {
+      drawText(ctx, x[i], y[i], r[i], customTextChar || '*', angle, true);
+    } else if (pathShape === 'custom') {
+      // The width is set in the shape's own units, which the transform scales
+      const path = getCachedPath2D(customSvgPath!);
+      const scale = (r[i] * 2) / Math.max(customSvgViewBox!.width, customSvgViewBox!.height);
+      ctx.save();
+      ctx.translate(x[i], y[i]);
+      if (angle !== 0) ctx.rotate(angle);
+      ctx.scale(scale, scale);
+      ctx.translate(-customSvgViewBox!.width / 2, -customSvgViewBox!.height / 2);
+      ctx.lineWidth = width / scale;
+      ctx.stroke(path);
+      ctx.restore();
+    } else {
+      batch ??= new Path2D();
+      traceShape(batch, pathShape, x[i], y[i], r[i], angle, shapeParams);
+    }
+  }
+  if (batch) ctx.stroke(batch);
+}
+
+/**
+ * Fill the background and draw a frame through its view transform: each
+ * separation with its blend mode, line screens as filled polygons, and each
+ * ramp band filled or outlined with its own shape. `w` × `h` is the layout size.
+ */
+export function drawFrameGeometry(ctx: Canvas2D, frame: FrameGeometry, w: number, h: number): void {
+  ctx.fillStyle = frame.colors.background;
+  ctx.fillRect(0, 0, w, h);
+
+  // Apply zoom/pan transform
+  const { view } = frame;
+  ctx.save();
+  ctx.translate(view.offsetX, view.offsetY);
+  ctx.scale(view.scale, view.scale);
+
+  if (frame.separation) ctx.globalCompositeOperation = frame.separation.blend;
+  if (frame.outline) {
+    ctx.lineCap = frame.outline.cap;
+    ctx.lineJoin = frame.outline.join;
+  }
+  for (const layer of getFrameLayers(frame)) {
+    ctx.fillStyle = layer.colors.foreground;
+    ctx.strokeStyle = layer.colors.foreground;
+    if (layer.lines) {
+      fillLines(ctx, layer.lines);
+      continue;
+    }
+    const draw = layer.cellColors ? drawColoredCells : drawCells;
+    for (const band of getRampLayers(layer)) {
+      if (frame.outline) {
+        strokeCells(
+          ctx, band.cells, band.shape, band.customSvgPath, band.customSvgViewBox, band.customTextChar,
+          band.angle, band.shapeParams, band.cellColors,
+        );
+      } else {
+        draw(ctx, band.cells, band.shape, band.customSvgPath, band.customSvgViewBox, band.customTextChar, band.angle, band.shapeParams);
+      }
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,196 @@
+import type { ParametricShape, ShapeParams, ShapeType } from '../types';
+import type { PathSink } from './svgPath';
+
+const SQRT3 = Math.sqrt(3);
+// Control point distance for a quarter circle cubic
+const KAPPA = 0.5522847498;
+
+/**
+ * Backend-independent outlines for the built-in shapes, centered on (cx, cy)
+ * with radius r and rotated by the screen angle (radians) where it matters.
+ * Canvas, PDF and plotter output trace the same geometry.
+ */
+
+export function traceCircle(sink: PathSink, cx: number, cy: number, r: number): void {
+  const k = r * KAPPA;
+  sink.moveTo(cx + r, cy);
+  sink.bezierCurveTo(cx + r, cy + k, cx + k, cy + r, cx, cy + r);
+  sink.bezierCurveTo(cx - k, cy + r, cx - r, cy + k, cx - r, cy);
+  sink.bezierCurveTo(cx - r, cy - k, cx - k, cy - r, cx, cy - r);
+  sink.bezierCurveTo(cx + k, cy - r, cx + r, cy - k, cx + r, cy);
+  sink.closePath();
+}
+
+export function traceSquare(sink: PathSink, cx: number, cy: number, r: number, angle = 0): void {
+  const p = rotator(cx, cy, angle);
+  sink.moveTo(p.x(-r, -r), p.y(-r, -r));
+  sink.lineTo(p.x(r, -r), p.y(r, -r));
+  sink.lineTo(p.x(r, r), p.y(r, r));
+  sink.lineTo(p.x(-r, r), p.y(-r, r));
+  sink.closePath();
+}
+
+export function traceTriangleUp(sink: PathSink, cx: number, cy: number, r: number, angle = 0): void {
+  const p = rotator(cx, cy, angle);
+  const half = (r * SQRT3) / 2;
+  sink.moveTo(p.x(0, -r), p.y(0, -r));
+  sink.lineTo(p.x(-half, r), p.y(-half, r));
+  sink.lineTo(p.x(half, r), p.y(half, r));
+  sink.closePath();
+}
+
+export const PARAMETRIC_SHAPES: readonly ParametricShape[] = [
+  'polygon', 'star', 'diamond', 'cross', 'ring', 'rounded-square', 'heart', 'line',
+];
+
+export function isParametricShape(shape: ShapeType): shape is ParametricShape {
+  return (PARAMETRIC_SHAPES as readonly ShapeType[]).includes(shape);
+}
+
+// Heart outline in unit coordinates (fits the unit circle, point down): start, then cubic segments
+const HEART_START = [0, -0.55];
+const HEART_CURVES = [
+  [-0.15, -1, -1, -1, -1, -0.4],
+  [-1, 0.1, -0.4, 0.4, 0, 0.85],
+  [0.4, 0.4, 1, 0.1, 1, -0.4],
+  [1, -1, 0.15, -1, 0, -0.55],
+];
+
+/**
+ * Outline of a parametric shape: regular polygon and star (first point up),
+ * diamond, plus-shaped cross, ring (inner circle wound the other way so it
+ * stays a hole under the nonzero rule), rounded square, heart and a line
+ * segment as a bar across the cell.
+ */
+export function traceParametric(
+  sink: PathSink,
+  shape: ParametricShape,
+  cx: number,
+  cy: number,
+  r: number,
+  angle: number,
+  params: ShapeParams,
+): void {
+  const p = rotator(cx, cy, angle);
+  const polygon = (pts: number[]) => {
+    sink.moveTo(p.x(pts[0], pts[1]), p.y(pts[0], pts[1]));
+    for (let i = 2; i < pts.length; i += 2) sink.lineTo(p.x(pts[i], pts[i + 1]), p.y(pts[i], pts[i + 1]));
+    sink.closePath();
+  };
+
+  switch (shape) {
+    case 'polygon':
+    case 'star': {
+      const n = Math.max(3, Math.round(params.sides));
+      const steps = shape === 'star' ? n * 2 : n;
+      const pts: number[] = [];
+      for (let i = 0; i < steps; i++) {
+        const a = -Math.PI / 2 + (i * Math.PI * 2) / steps;
+        const rr = shape === 'star' && i % 2 === 1 ? r * params.innerRadius : r;
+        pts.push(rr * Math.cos(a), rr * Math.sin(a));
+      }
+      polygon(pts);
+      break;
+    }
+    case 'diamond':
+      polygon([0, -r, r, 0, 0, r, -r, 0]);
+      break;
+    case 'cross': {
+      const t = r * params.thickness;
+      polygon([-t, -r, t, -r, t, -t, r, -t, r, t, t, t, t, r, -t, r, -t, t, -r, t, -r, -t, -t, -t]);
+      break;
+    }
+    case 'line': {
+      const t = r * params.thickness;
+      polygon([-r, -t, r, -t, r, t, -r, t]);
+      break;
+    }
+    case 'ring': {
+      traceCircle(sink, cx, cy, r);
+      const ri = r * Math.max(0, 1 - params.thickness * 2);
+      if (ri <= 0) break;
+      const k = ri * KAPPA;
+      sink.moveTo(cx + ri, cy);
+      sink.bezierCurveTo(cx + ri, cy - k, cx + k, cy - ri, cx, cy - ri);
+      sink.bezierCurveTo(cx - k, cy - ri, cx - ri, cy - k, cx - ri, cy);
+      sink.bezierCurveTo(cx - ri, cy + k, cx - k, cy + ri, cx, cy + ri);
+      sink.bezierCurveTo(cx + k, cy + ri, cx + ri, cy + k, cx + ri, cy);
+      sink.closePath();
+      break;
+    }
+    case 'rounded-square': {
+      const c = r * Math.min(1, Math.max(0, params.cornerRadius));
+      const k = c * (1 - KAPPA);
+      const curve = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) =>
+        sink.bezierCurveTo(p.x(x1, y1), p.y(x1, y1), p.x(x2, y2), p.y(x2, y2), p.x(x, y), p.y(x, y));
+      sink.moveTo(p.x(-r + c, -r), p.y(-r + c, -r));
+      sink.lineTo(p.x(r - c, -r), p.y(r - c, -r));
+      curve(r - k, -r, r, -r + k, r, -r + c);
+      sink.lineTo(p.x(r, r - c), p.y(r, r - c));
+      curve(r, r - k, r - k, r, r - c, r);
+      sink.lineTo(p.x(-r + c, r), p.y(-r + c, r));
+      curve(-r + k, r, -r, r - k, -r, r - c);
+      sink.lineTo(p.x(-r, -r + c), p.y(-r, -r + c));
+      curve(-r, -r + k, -r + k, -r, -r + c, -r);
+      sink.closePath();
+      break;
+    }
+    case 'heart': {
+      sink.moveTo(p.x(HEART_START[0] * r, HEART_START[1] * r), p.y(HEART_START[0] * r, HEART_START[1] * r));
+      for (const [x1, y1, x2, y2, x, y] of HEART_CURVES) {
+        sink.bezierCurveTo(
+          p.x(x1 * r, y1 * r), p.y(x1 * r, y1 * r),
+          p.x(x2 * r, y2 * r), p.y(x2 * r, y2 * r),
+          p.x(x * r, y * r), p.y(x * r, y * r),
+        );
+      }
+      sink.closePath();
+      break;
+    }
+  }
+}
+
+/**
+ * Outline of any built-in shape, for stroking and plotting. Returns false
+ * for text and custom shapes, which have no traced outline here.
+ */
+export function traceShape(
+  sink: PathSink,
+  shape: ShapeType,
+  cx: number,
+  cy: number,
+  r: number,
+  angle: number,
+  params: ShapeParams,
+): boolean {
+  if (isParametricShape(shape)) {
+    traceParametric(sink, shape, cx, cy, r, angle, params);
+    return true;
+  }
+  switch (shape) {
+    case 'circle':
+      traceCircle(sink, cx, cy, r);
+      return true;
+    case 'square':
+      traceSquare(sink, cx, cy, r, angle);
+      return true;
+    case 'triangle-up':
+      traceTriangleUp(sink, cx, cy, r, angle);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Maps offsets from (cx, cy) through a rotation by `angle` radians */
+function rotator(cx: number, cy: number, angle: number): { x: (dx: number, dy: number) => number; y: (dx: number, dy: number) => number } {
+  if (angle === 0) {
+    return { x: dx => cx + dx, y: (_dx, dy) => cy + dy };
+  }
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: (dx, dy) => cx + cos * dx - sin * dy,
+    y: (dx, dy) => cy + sin * dx + cos * dy,
+  };
+}
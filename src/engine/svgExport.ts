@@ -0,0 +1,258 @@
+import type { ShapeType } from '../types';
+import type { FrameGeometry } from './cells';
+import { cellExtent, getRampLayers, getVisibleBounds } from './cells';
+import { isParametricShape, traceParametric, traceSquare, traceTriangleUp } from './shapeGeometry';
+import type { PathSink } from './svgPath';
+import { packedToHex } from '../utils/color';
+import { getFrameLayers } from './separations';
+import { traceLines } from './lineScreen';
+
+/**
+ * fidelity: one element per shape at 0.01px precision, easy to edit by hand.
+ * compact: shapes merged into a single path (custom shapes reference one
+ * symbol) at 0.1px precision, typically 3-5× smaller.
+ */
+export type SvgMode = 'fidelity' | 'compact';
+
+export interface SvgDocumentSize {
+  width: number;              // document size in `unit`; the viewBox is the layout size
+  height: number;
+  unit: '' | 'mm' | 'in';
+}
+
+const SQRT3 = Math.sqrt(3);
+
+/** Number formatter trimming trailing zeros ("12.50" -> "12.5") */
+function formatter(digits: number): (v: number) => string {
+  return v => String(+v.toFixed(digits) || 0);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Absolute path data for traced (e.g. rotated) outlines, appended to `out` */
+export class SvgPathSink implements PathSink {
+  constructor(public out: string[], private f: (v: number) => string) {}
+
+  moveTo(x: number, y: number): void {
+    this.out.push(`M${this.f(x)} ${this.f(y)}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.out.push(`L${this.f(x)} ${this.f(y)}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    const f = this.f;
+    this.out.push(`C${f(cp1x)} ${f(cp1y)} ${f(cp2x)} ${f(cp2y)} ${f(x)} ${f(y)}`);
+  }
+
+  closePath(): void {
+    this.out.push('z');
+  }
+}
+
+function transformAttr(transform: string): string {
+  return transform ? ` transform="${transform}"` : '';
+}
+
+/** Shape elements (or merged paths) for every visible cell of a single-layer frame */
+function writeCells(out: string[], frame: FrameGeometry, mode: SvgMode, f: (v: number) => string): void {
+  const { width: w, height: h, view, shape, cells, angle } = frame;
+  const custom = shape === 'custom' && frame.customSvgPath && frame.customSvgViewBox
+    ? { d: frame.customSvgPath, vb: frame.customSvgViewBox }
+    : null;
+  const effectiveShape: ShapeType = shape === 'custom' && !custom ? 'circle' : shape;
+  const { minX, minY, maxX, maxY } = getVisibleBounds(view, w, h);
+
+  const { outline } = frame;
+  // The group sets a constant stroke width; mapped widths go on each shape
+  const perShapeWidth = outline?.mode === 'weight';
+  const colorOf = (i: number) => (frame.cellColors ? cells.color[i] : -1);
+  const widthOf = (i: number) => (perShapeWidth ? cells.stroke[i] : 0);
+  // Fill, or stroke color and width, for a color (-1: the group's) and stroke width (0: the group's)
+  const paint = (color: number, width: number) => {
+    if (!outline) return color >= 0 ? ` fill="${packedToHex(color)}"` : '';
+    return (color >= 0 ? ` stroke="${packedToHex(color)}"` : '') + (width > 0 ? ` stroke-width="${f(width)}"` : '');
+  };
+
+  // Merged path data per paint
+  const merged = new Map<string, { color: number; width: number; d: string[] }>();
+  const mergedFor = (i: number): string[] => {
+    const color = colorOf(i);
+    const width = widthOf(i);
+    const key = `${color} ${f(width)}`;
+    let entry = merged.get(key);
+    if (!entry) merged.set(key, (entry = { color, width, d: [] }));
+    return entry.d;
+  };
+  const mergedSink = new SvgPathSink([], f);
+  const fill = (i: number) => paint(colorOf(i), widthOf(i));
+  // Custom shapes are scaled by their transform, and the stroke with them
+  const scaledFill = (i: number, scale: number) =>
+    paint(colorOf(i), outline ? (perShapeWidth ? cells.stroke[i] : outline.width) / scale : 0);
+  const char = escapeXml(frame.customTextChar);
+  const extent = cellExtent(angle);
+  const degrees = +((angle * 180) / Math.PI).toFixed(4);
+  const rotate = (cx: number, cy: number) => (angle === 0 ? '' : `rotate(${degrees} ${f(cx)} ${f(cy)})`);
+
+  for (let i = 0; i < cells.count; i++) {
+    const cx = cells.x[i];
+    const cy = cells.y[i];
+    const r = cells.r[i];
+    const e = r * extent + (outline ? cells.stroke[i] / 2 : 0);
+    if (cx + e < minX || cx - e > maxX || cy + e < minY || cy - e > maxY) continue;
+
+    switch (effectiveShape) {
+      case 'circle':
+        if (mode === 'compact') {
+          mergedFor(i).push(`M${f(cx - r)} ${f(cy)}a${f(r)} ${f(r)} 0 1 0 ${f(2 * r)} 0a${f(r)} ${f(r)} 0 1 0 ${f(-2 * r)} 0z`);
+        } else {
+          out.push(`<circle cx="${f(cx)}" cy="${f(cy)}" r="${f(r)}"${fill(i)} />`);
+        }
+        break;
+      case 'square':
+        if (mode === 'compact') {
+          if (angle === 0) {
+            mergedFor(i).push(`M${f(cx - r)} ${f(cy - r)}h${f(2 * r)}v${f(2 * r)}h${f(-2 * r)}z`);
+          } else {
+            mergedSink.out = mergedFor(i);
+            traceSquare(mergedSink, cx, cy, r, angle);
+          }
+        } else {
+          out.push(`<rect x="${f(cx - r)}" y="${f(cy - r)}" width="${f(2 * r)}" height="${f(2 * r)}"${fill(i)}${transformAttr(rotate(cx, cy))} />`);
+        }
+        break;
+      case 'triangle-up': {
+        const half = (r * SQRT3) / 2;
+        if (mode === 'compact') {
+          if (angle === 0) {
+            mergedFor(i).push(`M${f(cx)} ${f(cy - r)}l${f(-half)} ${f(2 * r)}h${f(2 * half)}z`);
+          } else {
+            mergedSink.out = mergedFor(i);
+            traceTriangleUp(mergedSink, cx, cy, r, angle);
+          }
+        } else {
+          out.push(`<polygon points="${f(cx)},${f(cy - r)} ${f(cx - half)},${f(cy + r)} ${f(cx + half)},${f(cy + r)}"${fill(i)}${transformAttr(rotate(cx, cy))} />`);
+        }
+        break;
+      }
+      case 'text':
+        // Canvas skips glyphs below 1px
+        if (r * 2 < 1) break;
+        out.push(`<text x="${f(cx)}" y="${f(cy)}" font-size="${f(r * 2)}"${fill(i)}${transformAttr(rotate(cx, cy))}>${char}</text>`);
+        break;
+      default:
+        if (!isParametricShape(effectiveShape)) break;
+        if (mode === 'compact') {
+          mergedSink.out = mergedFor(i);
+          traceParametric(mergedSink, effectiveShape, cx, cy, r, angle, frame.shapeParams);
+        } else {
+          const d: string[] = [];
+          mergedSink.out = d;
+          traceParametric(mergedSink, effectiveShape, cx, cy, r, angle, frame.shapeParams);
+          out.push(`<path d="${d.join('')}"${fill(i)} />`);
+        }
+        break;
+      case 'custom': {
+        const { vb, d } = custom!;
+        const scale = (r * 2) / Math.max(vb.width, vb.height);
+        const sw = vb.width * scale;
+        const sh = vb.height * scale;
+        if (mode === 'compact') {
+          out.push(`<use xlink:href="#shape" x="${f(cx - sw / 2)}" y="${f(cy - sh / 2)}" width="${f(sw)}" height="${f(sh)}"${scaledFill(i, scale)}${transformAttr(rotate(cx, cy))} />`);
+        } else {
+          const place = `translate(${f(cx - sw / 2)} ${f(cy - sh / 2)}) scale(${+scale.toFixed(6)})`;
+          out.push(`<path d="${escapeXml(d)}"${scaledFill(i, scale)} transform="${angle === 0 ? place : `${rotate(cx, cy)} ${place}`}" />`);
+        }
+        break;
+      }
+    }
+  }
+
+  for (const { color, width, d } of merged.values()) {
+    out.push(`<path${paint(color, width)} d="${d.join('')}" />`);
+  }
+}
+
+/**
+ * Line-screen polygons of a single-layer frame that reach the viewport: one
+ * merged path, or one path per line segment in fidelity mode
+ */
+function writeLines(out: string[], frame: FrameGeometry, mode: SvgMode, f: (v: number) => string): void {
+  const sink = new SvgPathSink([], f);
+  traceLines(sink, frame.lines!, getVisibleBounds(frame.view, frame.width, frame.height));
+  if (sink.out.length === 0) return;
+  if (mode === 'compact') {
+    out.push(`<path d="${sink.out.join('')}" />`);
+    return;
+  }
+  let d: string[] = [];
+  for (const command of sink.out) {
+    d.push(command);
+    if (command === 'z') {
+      out.push(`<path d="${d.join('')}" />`);
+      d = [];
+    }
+  }
+}
+
+/**
+ * Serialize a frame exactly as the canvas draws it: the view transform is
+ * applied as a group transform, the document is clipped to the viewport and
+ * shapes that end up entirely outside it are dropped. With cell colors each
+ * shape gets its own fill; compact mode merges shapes per color.
+ * Separations become one named layer per channel (e.g. `cyan`) with its ink
+ * as the fill and the blend mode as mix-blend-mode, ready to output as films.
+ * A shape ramp writes each band's cells with that band's shape. Outlines
+ * are written as unfilled shapes with stroke attributes, line screens as
+ * filled paths (nonzero, so overlapping neighbours stay solid).
+ */
+export function buildSvg(frame: FrameGeometry, size: SvgDocumentSize, mode: SvgMode): string {
+  const { width: w, height: h, view, colors, outline } = frame;
+  const f = formatter(mode === 'compact' ? 1 : 2);
+  const lineScreen = getFrameLayers(frame).some(layer => layer.lines);
+  const usesShape = (shape: ShapeType) =>
+    !lineScreen && (frame.shape === shape || !!frame.ramp?.some(step => step.shape === shape));
+  const customPath = usesShape('custom') && frame.customSvgPath && frame.customSvgViewBox
+    ? { d: frame.customSvgPath, vb: frame.customSvgViewBox }
+    : null;
+
+  const out: string[] = [];
+  const inkscape = frame.separation ? ' xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"' : '';
+  out.push(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${inkscape} width="${size.width}${size.unit}" height="${size.height}${size.unit}" viewBox="0 0 ${w} ${h}">`);
+
+  const defs: string[] = [`<clipPath id="viewport"><rect width="${w}" height="${h}" /></clipPath>`];
+  if (customPath && mode === 'compact') {
+    defs.push(`<symbol id="shape" viewBox="0 0 ${customPath.vb.width} ${customPath.vb.height}"><path d="${escapeXml(customPath.d)}" /></symbol>`);
+  }
+  out.push(`<defs>${defs.join('')}</defs>`);
+  out.push(`<rect width="${w}" height="${h}" fill="${colors.background}" />`);
+
+  const isIdentity = view.scale === 1 && view.offsetX === 0 && view.offsetY === 0;
+  const transform = isIdentity ? '' : ` transform="translate(${f(view.offsetX)} ${f(view.offsetY)}) scale(${+view.scale.toFixed(6)})"`;
+  const textAttrs = usesShape('text')
+    ? ' font-family="sans-serif" text-anchor="middle" dominant-baseline="central"'
+    : '';
+
+  const separation = frame.separation;
+  getFrameLayers(frame).forEach((layer, k) => {
+    if (separation) {
+      const { channel, label } = separation.layers[k];
+      out.push(`<g id="${channel}" inkscape:groupmode="layer" inkscape:label="${label}" style="mix-blend-mode:${separation.blend}">`);
+    }
+    const ink = layer.colors.foreground;
+    const paint = outline
+      ? `fill="none" stroke="${ink}"${outline.mode === 'size' ? ` stroke-width="${f(outline.width)}"` : ''} stroke-linecap="${outline.cap}" stroke-linejoin="${outline.join}"`
+      : `fill="${ink}"`;
+    out.push(`<g clip-path="url(#viewport)"><g ${paint}${textAttrs}${transform}>`);
+    if (layer.lines) writeLines(out, layer, mode, f);
+    else for (const band of getRampLayers(layer)) writeCells(out, band, mode, f);
+    out.push('</g></g>');
+    if (separation) out.push('</g>');
+  });
+
+  out.push('</svg>');
+  return out.join('\n');
+}
@@ -0,0 +1,560 @@
+/**
+ * Custom shape import: flattens a whole SVG file (paths, basic shapes,
+ * groups, transforms, <use>, nested <svg>) into a single path in a viewBox
+ * starting at 0,0, so every backend draws it with one default-filled path.
+ */
+
+import { parseSvgPath } from './svgPath';
+import type { PathCommand } from './svgPath';
+
+export interface ImportedSvgShape {
+  pathData: string;
+  viewBox: { width: number; height: number };
+  /** Elements that could not be imported, e.g. "<text>", for reporting */
+  skipped: string[];
+}
+
+/** Affine matrix [a b c d e f] (canvas setTransform order) */
+type Matrix = [number, number, number, number, number, number];
+
+type FillRule = 'nonzero' | 'evenodd';
+
+/** Inherited presentation state while walking the tree */
+interface Context {
+  matrix: Matrix;
+  fill: boolean;
+  fillRule: FillRule;
+  depth: number;             // <use> nesting, to stop reference cycles
+  viewport: [number, number] | null; // size percentages refer to, when known
+}
+
+/** One filled element: its subpaths and fill rule, already transformed */
+interface ElementPath {
+  subpaths: PathCommand[][];
+  fillRule: FillRule;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_USE_DEPTH = 8;
+// Line segments per cubic when testing containment and orientation
+const CURVE_STEPS = 8;
+
+const CONTAINERS = new Set(['svg', 'g', 'a', 'switch']);
+const SHAPES = new Set(['path', 'rect', 'circle', 'ellipse', 'polygon', 'polyline', 'line']);
+// Elements with no geometry of their own (or only used by reference)
+const IGNORED = new Set([
+  'defs', 'symbol', 'title', 'desc', 'metadata', 'style', 'script', 'clipPath', 'mask',
+  'linearGradient', 'radialGradient', 'pattern', 'filter', 'marker',
+]);
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/** Parse a transform attribute list, e.g. "translate(10 5) rotate(45)" */
+function parseTransform(value: string | null): Matrix {
+  let m: Matrix = IDENTITY;
+  if (!value) return m;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  for (let match = re.exec(value); match; match = re.exec(value)) {
+    const args = match[2].split(/[\s,]+/).filter(Boolean).map(Number);
+    const [a = 0, b, c] = args;
+    let t: Matrix;
+    switch (match[1]) {
+      case 'matrix':
+        t = args.length === 6 ? (args as Matrix) : IDENTITY;
+        break;
+      case 'translate':
+        t = [1, 0, 0, 1, a, b ?? 0];
+        break;
+      case 'scale':
+        t = [a, 0, 0, b ?? a, 0, 0];
+        break;
+      case 'rotate': {
+        const rad = (a * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        t = [cos, sin, -sin, cos, 0, 0];
+        // Rotation about (b, c)
+        if (b !== undefined) t = multiply(multiply([1, 0, 0, 1, b, c ?? 0], t), [1, 0, 0, 1, -b, -(c ?? 0)]);
+        break;
+      }
+      case 'skewX':
+        t = [1, 0, Math.tan((a * Math.PI) / 180), 1, 0, 0];
+        break;
+      default:
+        t = [1, Math.tan((a * Math.PI) / 180), 0, 1, 0, 0];
+    }
+    m = multiply(m, t);
+  }
+  return m;
+}
+
+/** Declarations of `.class` rules from the document's style sheets, by class name */
+type ClassRules = Map<string, Map<string, string>>;
+
+function parseDeclarations(text: string): Map<string, string> {
+  const decls = new Map<string, string>();
+  for (const decl of text.split(';')) {
+    const colon = decl.indexOf(':');
+    if (colon > 0) decls.set(decl.slice(0, colon).trim(), decl.slice(colon + 1).replace(/!important/, '').trim());
+  }
+  return decls;
+}
+
+/**
+ * Collect the simple class rules of every <style> element, the way
+ * Illustrator exports set fills (e.g. `.st0{fill:none}`). Other selectors
+ * and at-rules are reported in `skipped`.
+ */
+function parseStyleSheets(doc: Document, skipped: Set<string>): ClassRules {
+  const rules: ClassRules = new Map();
+  for (const style of Array.from(doc.getElementsByTagNameNS(SVG_NS, 'style'))) {
+    let css = (style.textContent ?? '').replace(/\/\*[\s\S]*?\*\//g, '');
+    // At-rules (@media, @import…) are not evaluated; drop them and their nested rules
+    const withoutAtRules = css.replace(/@[^{;]*\{(?:[^{}]*\{[^{}]*\})*[^{}]*\}|@[^{;]*;/g, '');
+    if (withoutAtRules !== css) skipped.add('<style> at-rules');
+    css = withoutAtRules;
+    const re = /([^{}]+)\{([^{}]*)\}/g;
+    for (let match = re.exec(css); match; match = re.exec(css)) {
+      const decls = parseDeclarations(match[2]);
+      for (const selector of match[1].split(',').map(v => v.trim()).filter(Boolean)) {
+        const cls = /^\.([\w-]+)$/.exec(selector);
+        if (!cls) {
+          skipped.add(`<style> rule "${selector}"`);
+          continue;
+        }
+        const merged = rules.get(cls[1]) ?? new Map<string, string>();
+        decls.forEach((v, k) => merged.set(k, v));
+        rules.set(cls[1], merged);
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * A presentation property: the style attribute, then class rules (later
+ * classes win), then the attribute
+ */
+function presentation(el: Element, name: string, rules: ClassRules): string | null {
+  const style = el.getAttribute('style');
+  const inline = style ? parseDeclarations(style).get(name) : undefined;
+  if (inline !== undefined) return inline;
+  let fromClass: string | null = null;
+  for (const cls of (el.getAttribute('class') ?? '').split(/\s+/)) {
+    fromClass = rules.get(cls)?.get(name) ?? fromClass;
+  }
+  return fromClass ?? el.getAttribute(name);
+}
+
+function length(el: Element, name: string, fallback = 0): number {
+  const v = parseFloat(el.getAttribute(name) ?? '');
+  return Number.isFinite(v) ? v : fallback;
+}
+
+/** A width or height in user units: unitless or px, otherwise null (%, mm, em…) */
+function userLength(el: Element, name: string): number | null {
+  const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(px)?\s*$/i.exec(el.getAttribute(name) ?? '');
+  return match ? parseFloat(match[1]) : null;
+}
+
+/** A width or height in user units, with percentages of the viewport size; null otherwise */
+function viewportLength(el: Element, name: string, viewport: number | undefined): number | null {
+  const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*%\s*$/.exec(el.getAttribute(name) ?? '');
+  if (match) return viewport === undefined ? null : (parseFloat(match[1]) / 100) * viewport;
+  return userLength(el, name);
+}
+
+function parsePoints(value: string | null): number[] {
+  return (value ?? '').split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+}
+
+/** Path data for a basic shape or path element, or null when it has no area */
+function elementPathData(el: Element): string | null {
+  switch (el.localName) {
+    case 'path':
+      return el.getAttribute('d');
+    case 'rect': {
+      const x = length(el, 'x');
+      const y = length(el, 'y');
+      const w = length(el, 'width');
+      const h = length(el, 'height');
+      if (w <= 0 || h <= 0) return null;
+      // A missing corner radius takes the other one
+      let rx = el.hasAttribute('rx') ? length(el, 'rx') : length(el, 'ry');
+      let ry = el.hasAttribute('ry') ? length(el, 'ry') : rx;
+      rx = Math.min(Math.max(0, rx), w / 2);
+      ry = Math.min(Math.max(0, ry), h / 2);
+      if (rx === 0 || ry === 0) return `M${x} ${y}h${w}v${h}h${-w}z`;
+      return `M${x + rx} ${y}h${w - 2 * rx}a${rx} ${ry} 0 0 1 ${rx} ${ry}v${h - 2 * ry}a${rx} ${ry} 0 0 1 ${-rx} ${ry}` +
+        `h${-(w - 2 * rx)}a${rx} ${ry} 0 0 1 ${-rx} ${-ry}v${-(h - 2 * ry)}a${rx} ${ry} 0 0 1 ${rx} ${-ry}z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = length(el, 'cx');
+      const cy = length(el, 'cy');
+      const rx = el.localName === 'circle' ? length(el, 'r') : length(el, 'rx');
+      const ry = el.localName === 'circle' ? rx : length(el, 'ry');
+      if (rx <= 0 || ry <= 0) return null;
+      return `M${cx - rx} ${cy}a${rx} ${ry} 0 1 0 ${2 * rx} 0a${rx} ${ry} 0 1 0 ${-2 * rx} 0z`;
+    }
+    case 'polygon':
+    case 'polyline': {
+      // Polylines fill as if closed, like polygons
+      const p = parsePoints(el.getAttribute('points'));
+      if (p.length < 6) return null;
+      let d = `M${p[0]} ${p[1]}`;
+      for (let i = 2; i + 1 < p.length; i += 2) d += `L${p[i]} ${p[i + 1]}`;
+      return `${d}z`;
+    }
+    default:
+      return null;
+  }
+}
+
+function transformCommand(c: PathCommand, m: Matrix): PathCommand {
+  const tx = (x: number, y: number) => m[0] * x + m[2] * y + m[4];
+  const ty = (x: number, y: number) => m[1] * x + m[3] * y + m[5];
+  switch (c.type) {
+    case 'M':
+    case 'L':
+      return { type: c.type, x: tx(c.x, c.y), y: ty(c.x, c.y) };
+    case 'C':
+      return {
+        type: 'C',
+        x1: tx(c.x1, c.y1), y1: ty(c.x1, c.y1),
+        x2: tx(c.x2, c.y2), y2: ty(c.x2, c.y2),
+        x: tx(c.x, c.y), y: ty(c.x, c.y),
+      };
+    default:
+      return c;
+  }
+}
+
+/** Split commands into subpaths, each starting with a moveto */
+function splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+  const subpaths: PathCommand[][] = [];
+  let current: PathCommand[] | null = null;
+  let x = 0;
+  let y = 0;
+  for (const c of commands) {
+    if (c.type === 'M') {
+      current = [c];
+      subpaths.push(current);
+    } else if (!current) {
+      // Drawing after a closepath continues from the subpath start
+      current = [{ type: 'M', x, y }, c];
+      subpaths.push(current);
+    } else {
+      current.push(c);
+    }
+    if (c.type === 'Z') {
+      x = current[0].type === 'M' ? current[0].x : x;
+      y = current[0].type === 'M' ? current[0].y : y;
+      current = null;
+    } else {
+      x = c.x;
+      y = c.y;
+    }
+  }
+  return subpaths.filter(s => s.some(c => c.type === 'L' || c.type === 'C'));
+}
+
+/** Subpath outline as a polygon (x, y pairs), curves sampled */
+function flatten(subpath: PathCommand[]): number[] {
+  const out: number[] = [];
+  let x = 0;
+  let y = 0;
+  for (const c of subpath) {
+    if (c.type === 'C') {
+      for (let i = 1; i <= CURVE_STEPS; i++) {
+        const t = i / CURVE_STEPS;
+        const u = 1 - t;
+        out.push(
+          u * u * u * x + 3 * u * u * t * c.x1 + 3 * u * t * t * c.x2 + t * t * t * c.x,
+          u * u * u * y + 3 * u * u * t * c.y1 + 3 * u * t * t * c.y2 + t * t * t * c.y,
+        );
+      }
+    } else if (c.type !== 'Z') {
+      out.push(c.x, c.y);
+    }
+    if (c.type !== 'Z') {
+      x = c.x;
+      y = c.y;
+    }
+  }
+  return out;
+}
+
+/** Shoelace area, positive for clockwise outlines in the y-down SVG space */
+function signedArea(poly: number[]): number {
+  let area = 0;
+  for (let i = 0, j = poly.length - 2; i < poly.length; j = i, i += 2) {
+    area += poly[j] * poly[i + 1] - poly[i] * poly[j + 1];
+  }
+  return area / 2;
+}
+
+/** Even-odd ray casting */
+function contains(poly: number[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 2; i < poly.length; j = i, i += 2) {
+    const yi = poly[i + 1];
+    const yj = poly[j + 1];
+    if ((yi > y) !== (yj > y) && x < ((poly[j] - poly[i]) * (y - yi)) / (yj - yi) + poly[i]) inside = !inside;
+  }
+  return inside;
+}
+
+/** The same outline traced the other way round */
+function reverseSubpath(subpath: PathCommand[]): PathCommand[] {
+  const points: { x: number; y: number }[] = [];
+  for (const c of subpath) if (c.type !== 'Z') points.push({ x: c.x, y: c.y });
+  const last = points[points.length - 1];
+  const out: PathCommand[] = [{ type: 'M', x: last.x, y: last.y }];
+  for (let i = subpath.length - 1; i > 0; i--) {
+    const c = subpath[i];
+    if (c.type === 'Z') continue;
+    // Segment i ends at points[i] and starts at points[i - 1]
+    const start = points[i - 1];
+    out.push(c.type === 'C'
+      ? { type: 'C', x1: c.x2, y1: c.y2, x2: c.x1, y2: c.y1, x: start.x, y: start.y }
+      : { type: 'L', x: start.x, y: start.y });
+  }
+  out.push({ type: 'Z' });
+  return out;
+}
+
+/**
+ * Orient an element's subpaths so the combined path fills the same area
+ * with the nonzero rule. Even-odd: outlines nested an even number of times
+ * turn clockwise and holes counter-clockwise (exact unless subpaths cross).
+ * Nonzero: the element is flipped as a whole so its net winding is
+ * clockwise and overlapping elements add up instead of cancelling.
+ */
+function orientForNonzero(element: ElementPath): PathCommand[][] {
+  const polys = element.subpaths.map(flatten);
+  const areas = polys.map(signedArea);
+  if (element.fillRule === 'evenodd') {
+    return element.subpaths.map((subpath, i) => {
+      const [x, y] = polys[i];
+      let depth = 0;
+      polys.forEach((other, j) => {
+        if (j !== i && contains(other, x, y)) depth++;
+      });
+      const clockwise = depth % 2 === 0;
+      return (areas[i] > 0) === clockwise ? subpath : reverseSubpath(subpath);
+    });
+  }
+  const net = areas.reduce((sum, a) => sum + a, 0);
+  return net < 0 ? element.subpaths.map(reverseSubpath) : element.subpaths;
+}
+
+function formatNumber(v: number): string {
+  return String(+v.toFixed(3) || 0);
+}
+
+function serialize(subpaths: PathCommand[][], dx: number, dy: number): string {
+  const f = formatNumber;
+  const out: string[] = [];
+  for (const subpath of subpaths) {
+    for (const c of subpath) {
+      switch (c.type) {
+        case 'M':
+        case 'L':
+          out.push(`${c.type}${f(c.x + dx)} ${f(c.y + dy)}`);
+          break;
+        case 'C':
+          out.push(`C${f(c.x1 + dx)} ${f(c.y1 + dy)} ${f(c.x2 + dx)} ${f(c.y2 + dy)} ${f(c.x + dx)} ${f(c.y + dy)}`);
+          break;
+        case 'Z':
+          out.push('Z');
+          break;
+      }
+    }
+  }
+  return out.join('');
+}
+
+/**
+ * Place a viewBox into a w × h viewport at the context's origin (xMidYMid
+ * meet) and make it the viewport for percentages below
+ */
+function fitViewBox(vb: [number, number, number, number], ctx: Context, w: number, h: number) {
+  const s = Math.min(w / vb[2], h / vb[3]);
+  ctx.matrix = multiply(ctx.matrix, [s, 0, 0, s, (w - vb[2] * s) / 2 - vb[0] * s, (h - vb[3] * s) / 2 - vb[1] * s]);
+  ctx.viewport = [vb[2], vb[3]];
+}
+
+/** viewBox as [minX, minY, width, height], or null when missing or invalid */
+function parseViewBox(el: Element): [number, number, number, number] | null {
+  const parts = (el.getAttribute('viewBox') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+  if (parts.length !== 4 || parts.some(v => !Number.isFinite(v)) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return parts as [number, number, number, number];
+}
+
+/**
+ * Convert an SVG document into one custom shape. Every filled element is
+ * kept (strokes are not: stroke-only elements are reported as skipped, like
+ * text, images and other unsupported elements), transforms and the viewBox
+ * origin are baked in, and mixed fill rules are normalized to nonzero.
+ * Without a viewBox the width/height attributes (unitless or px) or the
+ * shape's bounds are used. Simple class rules from <style> apply; other
+ * rules, clip paths and masks are reported as skipped. Throws when the file is not SVG or has nothing to draw.
+ */
+export function importSvgShape(svgText: string): ImportedSvgShape {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new Error('Not a valid SVG file');
+  }
+
+  const elements: ElementPath[] = [];
+  const skipped = new Set<string>();
+  const rules = parseStyleSheets(doc, skipped);
+
+  /** The context's fill state updated with the element's own presentation attributes */
+  const inherit = (el: Element, parent: Context): Context => {
+    const fill = presentation(el, 'fill', rules);
+    const fillRule = presentation(el, 'fill-rule', rules);
+    const visibility = presentation(el, 'visibility', rules);
+    // The element is imported unclipped and unmasked
+    for (const prop of ['clip-path', 'mask']) {
+      const value = presentation(el, prop, rules);
+      if (value && value !== 'none') skipped.add(prop);
+    }
+    const ctx: Context = {
+      ...parent,
+      fill: fill === null || fill === 'inherit' ? parent.fill : fill !== 'none' && fill !== 'transparent',
+      fillRule: fillRule === 'evenodd' || fillRule === 'nonzero' ? fillRule : parent.fillRule,
+    };
+    if (visibility === 'hidden' || visibility === 'collapse') ctx.fill = false;
+    return ctx;
+  };
+
+  const visit = (el: Element, parent: Context) => {
+    // Editor metadata (e.g. Inkscape's namedview) lives in other namespaces
+    if (el.namespaceURI !== SVG_NS) return;
+    const name = el.localName;
+    if (IGNORED.has(name)) return;
+    if (presentation(el, 'display', rules) === 'none') return;
+
+    const ctx = inherit(el, parent);
+    ctx.matrix = multiply(parent.matrix, parseTransform(el.getAttribute('transform')));
+
+    if (CONTAINERS.has(name)) {
+      if (name === 'svg' && el !== root) {
+        // Nested viewport: place its viewBox into x, y, width, height
+        ctx.matrix = multiply(ctx.matrix, [1, 0, 0, 1, length(el, 'x'), length(el, 'y')]);
+        const vb = parseViewBox(el);
+        if (vb) fitViewBox(vb, ctx, userLength(el, 'width') ?? vb[2], userLength(el, 'height') ?? vb[3]);
+      }
+      for (const child of Array.from(el.children)) visit(child, ctx);
+      return;
+    }
+
+    if (name === 'use') {
+      const href = el.getAttribute('href') ?? el.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+      const target = href?.startsWith('#') ? doc.querySelector(`[id="${CSS.escape(href.slice(1))}"]`) : null;
+      if (!target || ctx.depth >= MAX_USE_DEPTH) {
+        skipped.add('<use> without a target');
+        return;
+      }
+      ctx.matrix = multiply(ctx.matrix, [1, 0, 0, 1, length(el, 'x'), length(el, 'y')]);
+      ctx.depth++;
+      // Symbols are only drawn through <use>, as a group sized by the <use>
+      // width and height (100% by default)
+      if (target.localName === 'symbol') {
+        const symbolCtx = inherit(target, ctx);
+        const vb = parseViewBox(target);
+        if (vb) {
+          const w = viewportLength(el, 'width', ctx.viewport?.[0]) ?? ctx.viewport?.[0] ?? vb[2];
+          const h = viewportLength(el, 'height', ctx.viewport?.[1]) ?? ctx.viewport?.[1] ?? vb[3];
+          fitViewBox(vb, symbolCtx, w, h);
+        }
+        for (const child of Array.from(target.children)) visit(child, symbolCtx);
+      } else {
+        visit(target, ctx);
+      }
+      return;
+    }
+
+    if (!SHAPES.has(name)) {
+      skipped.add(`<${name}>`);
+      return;
+    }
+    if (!ctx.fill || name === 'line') {
+      skipped.add(`stroke-only <${name}>`);
+      return;
+    }
+
+    const d = elementPathData(el);
+    if (!d) return;
+    let commands: PathCommand[];
+    try {
+      commands = parseSvgPath(d);
+    } catch {
+      skipped.add(`<${name}> with invalid path data`);
+      return;
+    }
+    const subpaths = splitSubpaths(commands.map(c => transformCommand(c, ctx.matrix)));
+    if (subpaths.length > 0) elements.push({ subpaths, fillRule: ctx.fillRule });
+  };
+
+  const rootBox = parseViewBox(root);
+  const rootWidth = userLength(root, 'width');
+  const rootHeight = userLength(root, 'height');
+  const rootContext: Context = {
+    matrix: parseTransform(root.getAttribute('transform')),
+    fill: true,
+    fillRule: 'nonzero',
+    depth: 0,
+    viewport: rootBox ? [rootBox[2], rootBox[3]] : rootWidth !== null && rootHeight !== null ? [rootWidth, rootHeight] : null,
+  };
+  visit(root, rootContext);
+
+  const subpaths = elements.flatMap(orientForNonzero);
+  if (subpaths.length === 0) {
+    const reason = skipped.size > 0 ? ` (skipped ${[...skipped].join(', ')})` : '';
+    throw new Error(`No filled shapes found${reason}`);
+  }
+
+  let box = rootBox;
+  if (!box) {
+    // Sizes in other units (100%, 10mm) say nothing about user space; use the bounds
+    if (rootWidth !== null && rootHeight !== null && rootWidth > 0 && rootHeight > 0) {
+      box = [0, 0, rootWidth, rootHeight];
+    } else {
+      // Fit the shape's own bounds (control points included)
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+      for (const c of subpaths.flat()) {
+        if (c.type === 'Z') continue;
+        const xs = c.type === 'C' ? [c.x1, c.x2, c.x] : [c.x];
+        const ys = c.type === 'C' ? [c.y1, c.y2, c.y] : [c.y];
+        minX = Math.min(minX, ...xs);
+        maxX = Math.max(maxX, ...xs);
+        minY = Math.min(minY, ...ys);
+        maxY = Math.max(maxY, ...ys);
+      }
+      box = [minX, minY, Math.max(maxX - minX, 1e-3), Math.max(maxY - minY, 1e-3)];
+    }
+  }
+
+  return {
+    pathData: serialize(subpaths, -box[0], -box[1]),
+    viewBox: { width: box[2], height: box[3] },
+    skipped: [...skipped],
+  };
+}
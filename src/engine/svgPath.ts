@@ -0,0 +1,352 @@
+/**
+ * SVG path data parser. Normalizes every command to absolute
+ * move/line/cubic/close so non-canvas backends (PDF, plotter) only have to
+ * handle four primitives.
+ */
+
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+/** Anything that accepts path primitives; Path2D and CanvasRenderingContext2D both qualify */
+export interface PathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  closePath(): void;
+}
+
+const COMMAND_RE = /[MmLlHhVvCcSsQqTtAaZz]/;
+const NUMBER_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+class Scanner {
+  private pos = 0;
+  constructor(private src: string) {}
+
+  private skipSeparators(): void {
+    while (this.pos < this.src.length && /[\s,]/.test(this.src[this.pos])) this.pos++;
+  }
+
+  done(): boolean {
+    this.skipSeparators();
+    return this.pos >= this.src.length;
+  }
+
+  peekCommand(): string | null {
+    this.skipSeparators();
+    const c = this.src[this.pos];
+    return c && COMMAND_RE.test(c) ? c : null;
+  }
+
+  command(): string {
+    const c = this.peekCommand();
+    if (!c) throw new Error(`Invalid path data at ${this.pos}: expected a command`);
+    this.pos++;
+    return c;
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators();
+    return NUMBER_RE.test(this.src.slice(this.pos, this.pos + 32));
+  }
+
+  number(): number {
+    this.skipSeparators();
+    const m = NUMBER_RE.exec(this.src.slice(this.pos));
+    if (!m) throw new Error(`Invalid path data at ${this.pos}: expected a number`);
+    this.pos += m[0].length;
+    return parseFloat(m[0]);
+  }
+
+  /** Arc flags are single digits and may be written without separators ("a1 1 0 0110 10") */
+  flag(): number {
+    this.skipSeparators();
+    const c = this.src[this.pos];
+    if (c !== '0' && c !== '1') throw new Error(`Invalid path data at ${this.pos}: expected an arc flag`);
+    this.pos++;
+    return c === '1' ? 1 : 0;
+  }
+}
+
+/** Append cubic segments approximating an SVG elliptical arc (endpoint parameterization) */
+function arcToCubics(
+  out: PathCommand[],
+  x1: number, y1: number,
+  rx: number, ry: number,
+  angleDeg: number,
+  largeArc: number, sweep: number,
+  x2: number, y2: number,
+): void {
+  if (x1 === x2 && y1 === y2) return;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) {
+    out.push({ type: 'L', x: x2, y: y2 });
+    return;
+  }
+
+  const phi = (angleDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Step 1: endpoint -> center parameterization (SVG spec F.6.5)
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale up radii that are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const s = Math.sqrt(lambda);
+    rx *= s;
+    ry *= s;
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep) coef = -coef;
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  // Step 2: split into segments of at most 90° and approximate each with a cubic
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  // Unit-circle offset -> user space
+  const point = (ux: number, uy: number) => ({
+    x: cx + cosPhi * rx * ux - sinPhi * ry * uy,
+    y: cy + sinPhi * rx * ux + cosPhi * ry * uy,
+  });
+
+  let t = theta1;
+  for (let i = 0; i < segments; i++) {
+    const t2 = t + step;
+    const cos1 = Math.cos(t);
+    const sin1 = Math.sin(t);
+    const cos2 = Math.cos(t2);
+    const sin2 = Math.sin(t2);
+    const c1 = point(cos1 - k * sin1, sin1 + k * cos1);
+    const c2 = point(cos2 + k * sin2, sin2 - k * cos2);
+    const end = i === segments - 1 ? { x: x2, y: y2 } : point(cos2, sin2);
+    out.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+    t = t2;
+  }
+}
+
+/** Parse SVG path data into absolute M/L/C/Z commands; throws on malformed data */
+export function parseSvgPath(d: string): PathCommand[] {
+  const s = new Scanner(d);
+  const out: PathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflection points for smooth curve shorthands
+  let lastCubicX = 0;
+  let lastCubicY = 0;
+  let lastQuadX = 0;
+  let lastQuadY = 0;
+  let prev = '';
+
+  while (!s.done()) {
+    const cmd = s.command();
+    const rel = cmd === cmd.toLowerCase();
+    const upper = cmd.toUpperCase();
+
+    if (upper === 'Z') {
+      out.push({ type: 'Z' });
+      x = startX;
+      y = startY;
+      prev = 'Z';
+      continue;
+    }
+
+    let first = true;
+    do {
+      const ox = rel ? x : 0;
+      const oy = rel ? y : 0;
+      switch (upper) {
+        case 'M': {
+          x = ox + s.number();
+          y = oy + s.number();
+          // Extra coordinate pairs after a moveto are implicit linetos
+          if (first) {
+            out.push({ type: 'M', x, y });
+            startX = x;
+            startY = y;
+          } else {
+            out.push({ type: 'L', x, y });
+          }
+          break;
+        }
+        case 'L':
+          x = ox + s.number();
+          y = oy + s.number();
+          out.push({ type: 'L', x, y });
+          break;
+        case 'H':
+          x = ox + s.number();
+          out.push({ type: 'L', x, y });
+          break;
+        case 'V':
+          y = oy + s.number();
+          out.push({ type: 'L', x, y });
+          break;
+        case 'C': {
+          const x1 = ox + s.number();
+          const y1 = oy + s.number();
+          const x2 = ox + s.number();
+          const y2 = oy + s.number();
+          x = ox + s.number();
+          y = oy + s.number();
+          out.push({ type: 'C', x1, y1, x2, y2, x, y });
+          lastCubicX = x2;
+          lastCubicY = y2;
+          break;
+        }
+        case 'S': {
+          const smooth = prev === 'C' || prev === 'S';
+          const x1 = smooth ? 2 * x - lastCubicX : x;
+          const y1 = smooth ? 2 * y - lastCubicY : y;
+          const x2 = ox + s.number();
+          const y2 = oy + s.number();
+          x = ox + s.number();
+          y = oy + s.number();
+          out.push({ type: 'C', x1, y1, x2, y2, x, y });
+          lastCubicX = x2;
+          lastCubicY = y2;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          let qx: number;
+          let qy: number;
+          if (upper === 'Q') {
+            qx = ox + s.number();
+            qy = oy + s.number();
+          } else {
+            const smooth = prev === 'Q' || prev === 'T';
+            qx = smooth ? 2 * x - lastQuadX : x;
+            qy = smooth ? 2 * y - lastQuadY : y;
+          }
+          const ex = ox + s.number();
+          const ey = oy + s.number();
+          // Degree elevation: quadratic control point -> two cubic control points
+          out.push({
+            type: 'C',
+            x1: x + (2 / 3) * (qx - x),
+            y1: y + (2 / 3) * (qy - y),
+            x2: ex + (2 / 3) * (qx - ex),
+            y2: ey + (2 / 3) * (qy - ey),
+            x: ex,
+            y: ey,
+          });
+          lastQuadX = qx;
+          lastQuadY = qy;
+          x = ex;
+          y = ey;
+          break;
+        }
+        case 'A': {
+          const rx = s.number();
+          const ry = s.number();
+          const angle = s.number();
+          const largeArc = s.flag();
+          const sweep = s.flag();
+          const ex = ox + s.number();
+          const ey = oy + s.number();
+          arcToCubics(out, x, y, rx, ry, angle, largeArc, sweep, ex, ey);
+          x = ex;
+          y = ey;
+          break;
+        }
+      }
+      prev = upper;
+      first = false;
+    } while (s.hasNumber());
+  }
+
+  return out;
+}
+
+/** Replay commands into a sink with a uniform scale and offset */
+export function tracePath(
+  sink: PathSink,
+  commands: PathCommand[],
+  scale = 1,
+  tx = 0,
+  ty = 0,
+): void {
+  for (const c of commands) {
+    switch (c.type) {
+      case 'M':
+        sink.moveTo(c.x * scale + tx, c.y * scale + ty);
+        break;
+      case 'L':
+        sink.lineTo(c.x * scale + tx, c.y * scale + ty);
+        break;
+      case 'C':
+        sink.bezierCurveTo(
+          c.x1 * scale + tx, c.y1 * scale + ty,
+          c.x2 * scale + tx, c.y2 * scale + ty,
+          c.x * scale + tx, c.y * scale + ty,
+        );
+        break;
+      case 'Z':
+        sink.closePath();
+        break;
+    }
+  }
+}
+
+/** Forwards path primitives through an affine matrix [a b c d e f] (canvas setTransform order) */
+export class TransformedSink implements PathSink {
+  constructor(
+    private sink: PathSink,
+    private a: number, private b: number,
+    private c: number, private d: number,
+    private e: number, private f: number,
+  ) {}
+
+  private x(x: number, y: number): number {
+    return this.a * x + this.c * y + this.e;
+  }
+
+  private y(x: number, y: number): number {
+    return this.b * x + this.d * y + this.f;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.sink.moveTo(this.x(x, y), this.y(x, y));
+  }
+
+  lineTo(x: number, y: number): void {
+    this.sink.lineTo(this.x(x, y), this.y(x, y));
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.sink.bezierCurveTo(
+      this.x(cp1x, cp1y), this.y(cp1x, cp1y),
+      this.x(cp2x, cp2y), this.y(cp2x, cp2y),
+      this.x(x, y), this.y(x, y),
+    );
+  }
+
+  closePath(): void {
+    this.sink.closePath();
+  }
+}
@@ -0,0 +1,145 @@
+import type { ColorSettings, RampStep, ShapeRamp, ShapeType } from '../types';
+import { createPointList } from './layouts';
+import type { PointList } from './layouts';
+import { rampBand } from './cells';
+import { packedToHex } from '../utils/color';
+
+/**
+ * plain: characters only, for terminals and READMEs.
+ * html: a monospace <pre> with a color span per run of same-colored characters.
+ */
+export type TextFormat = 'plain' | 'html';
+
+/** Advance width of a monospace glyph relative to its size */
+export const CHAR_ASPECT = 0.6;
+
+/** Stand-ins for ramp steps that are shapes rather than characters */
+export const STEP_GLYPHS: Record<Exclude<RampStep['shape'], 'text'>, string> = {
+  circle: '●',
+  square: '■',
+  'triangle-up': '▲',
+  polygon: '⬢',
+  star: '★',
+  diamond: '◆',
+  cross: '✚',
+  ring: '○',
+  'rounded-square': '▢',
+  heart: '♥',
+  line: '━',
+  custom: '✦',
+};
+
+// Reusable point buffer
+let points: PointList = createPointList();
+
+/** Columns and rows of monospace characters `spacing` px tall covering a w × h layout */
+export function getTextGridSize(w: number, h: number, spacing: number): { columns: number; rows: number } {
+  return {
+    columns: Math.max(1, Math.floor(w / (spacing * CHAR_ASPECT))),
+    rows: Math.max(1, Math.floor(h / spacing)),
+  };
+}
+
+/**
+ * Character cell centers, row by row, with lattice col/row indices (for
+ * dithering). The returned buffer is shared and only valid until the next call.
+ */
+export function getTextPoints(w: number, h: number, spacing: number): PointList {
+  const { columns, rows } = getTextGridSize(w, h, spacing);
+  const count = columns * rows;
+  if (points.x.length < count) points = createPointList(count);
+  const cw = w / columns;
+  const ch = h / rows;
+  for (let row = 0, i = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++, i++) {
+      points.x[i] = (col + 0.5) * cw;
+      points.y[i] = (row + 0.5) * ch;
+      points.col[i] = col;
+      points.row[i] = row;
+    }
+  }
+  points.count = count;
+  return points;
+}
+
+/**
+ * Character per brightness band, darkest first: the ramp's steps (shapes
+ * become block glyphs), or blank and the character for the text shape.
+ * Null when the shape has no text form.
+ */
+export function getTextRamp(shape: ShapeType, char: string, ramp: ShapeRamp): string[] | null {
+  if (shape === 'text') return [' ', char || '*'];
+  if (shape !== 'ramp' || ramp.steps.length === 0) return null;
+  return ramp.steps.map(step => (step.shape === 'text' ? step.char || ' ' : STEP_GLYPHS[step.shape]));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Write a brightness grid sampled at getTextPoints as text, one character
+ * per cell picked by the same band split as the shape ramp. With `fills`
+ * (0xRRGGBB per cell) the HTML colors each character; blanks carry no color
+ * and trailing blanks are trimmed from every line.
+ */
+export function buildText(
+  grid: Float32Array,
+  fills: Uint32Array | null,
+  columns: number,
+  rows: number,
+  chars: string[],
+  invert: boolean,
+  format: TextFormat,
+  colors: ColorSettings,
+  spacing: number,
+): string {
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    const line: string[] = [];
+    let run = '';
+    let runColor = -1;
+    let blanks = '';
+    for (let col = 0; col < columns; col++) {
+      const i = row * columns + col;
+      const b = invert ? 1 - grid[i] : grid[i];
+      const c = chars[rampBand(b, chars.length)];
+      if (c.trim() === '') {
+        blanks += ' ';
+        continue;
+      }
+      if (format === 'plain') {
+        line.push(blanks, c);
+      } else {
+        const color = fills ? fills[i] : -1;
+        if (color !== runColor && run) {
+          line.push(runColor >= 0 ? `<span style="color:${packedToHex(runColor)}">${run}</span>` : run);
+          run = '';
+        }
+        // Blanks between runs go outside the spans
+        if (run) run += blanks;
+        else line.push(blanks);
+        run += escapeHtml(c);
+        runColor = color;
+      }
+      blanks = '';
+    }
+    if (run) line.push(runColor >= 0 ? `<span style="color:${packedToHex(runColor)}">${run}</span>` : run);
+    lines.push(line.join(''));
+  }
+
+  if (format === 'plain') return `${lines.join('\n')}\n`;
+  const font = `${+spacing.toFixed(2)}px/1 'Geist Mono', Menlo, Consolas, monospace`;
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><meta charset="utf-8"><title>Shapetone</title></head>',
+    `<body style="margin:0;background:${colors.background}">`,
+    `<pre style="margin:0;font:${font};color:${colors.foreground};background:${colors.background}">`,
+    ...lines,
+    '</pre>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
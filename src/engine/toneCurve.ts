@@ -0,0 +1,104 @@
+import type { CurvePoint, ToneLevels } from '../types';
+
+/** Entries in a tone lookup table */
+export const TONE_LUT_SIZE = 1024;
+/** Bars in the brightness histogram */
+export const HISTOGRAM_BINS = 64;
+
+/** True when levels and curve leave every value unchanged */
+export function isIdentityTone(levels: ToneLevels, curve: CurvePoint[]): boolean {
+  const flatLevels = levels.inBlack === 0 && levels.inWhite === 1 && levels.gamma === 1
+    && levels.outBlack === 0 && levels.outWhite === 1;
+  return flatLevels && curve.every(p => p.x === p.y);
+}
+
+/** Levels: stretch [inBlack, inWhite] to 0-1, bend midtones by gamma, compress into [outBlack, outWhite] */
+export function applyLevels(v: number, levels: ToneLevels): number {
+  const span = levels.inWhite - levels.inBlack;
+  let t = span > 0 ? (v - levels.inBlack) / span : v >= levels.inWhite ? 1 : 0;
+  t = t < 0 ? 0 : t > 1 ? 1 : t;
+  if (levels.gamma !== 1) t = Math.pow(t, 1 / levels.gamma);
+  return levels.outBlack + t * (levels.outWhite - levels.outBlack);
+}
+
+/**
+ * Monotone cubic (Fritsch–Carlson) interpolation through the curve points,
+ * so the spline never overshoots between points that are in order.
+ * Returns a function of x in 0-1.
+ */
+export function curveInterpolator(curve: CurvePoint[]): (x: number) => number {
+  const pts = [...curve].sort((a, b) => a.x - b.x);
+  const n = pts.length;
+  if (n === 0) return x => x;
+  if (n === 1) return () => pts[0].y;
+
+  // Secant slopes, then tangents limited to keep each segment monotone
+  const d: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = pts[i + 1].x - pts[i].x;
+    d.push(dx > 0 ? (pts[i + 1].y - pts[i].y) / dx : 0);
+  }
+  const m: number[] = [d[0]];
+  for (let i = 1; i < n - 1; i++) {
+    m.push(d[i - 1] * d[i] <= 0 ? 0 : (d[i - 1] + d[i]) / 2);
+  }
+  m.push(d[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (d[i] === 0) {
+      m[i] = m[i + 1] = 0;
+      continue;
+    }
+    const a = m[i] / d[i];
+    const b = m[i + 1] / d[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      m[i] = t * a * d[i];
+      m[i + 1] = t * b * d[i];
+    }
+  }
+
+  return x => {
+    if (x <= pts[0].x) return pts[0].y;
+    if (x >= pts[n - 1].x) return pts[n - 1].y;
+    let i = 0;
+    while (i < n - 2 && x > pts[i + 1].x) i++;
+    const h = pts[i + 1].x - pts[i].x;
+    if (h <= 0) return pts[i + 1].y;
+    const t = (x - pts[i].x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * pts[i].y + (t3 - 2 * t2 + t) * h * m[i]
+      + (-2 * t3 + 3 * t2) * pts[i + 1].y + (t3 - t2) * h * m[i + 1];
+  };
+}
+
+/** Levels followed by the curve, sampled into a lookup table over 0-1 */
+export function buildToneLut(levels: ToneLevels, curve: CurvePoint[]): Float32Array {
+  const lut = new Float32Array(TONE_LUT_SIZE);
+  const interpolate = curveInterpolator(curve);
+  for (let i = 0; i < TONE_LUT_SIZE; i++) {
+    const v = interpolate(applyLevels(i / (TONE_LUT_SIZE - 1), levels));
+    lut[i] = v < 0 ? 0 : v > 1 ? 1 : v;
+  }
+  return lut;
+}
+
+/** Map the first `count` grid values through a tone LUT in place */
+export function applyToneLut(grid: Float32Array, count: number, lut: Float32Array): void {
+  const last = lut.length - 1;
+  for (let i = 0; i < count; i++) {
+    const v = grid[i];
+    grid[i] = lut[Math.round((v < 0 ? 0 : v > 1 ? 1 : v) * last)];
+  }
+}
+
+/** Count the first `count` grid values into `bins` (cleared first) */
+export function fillHistogram(grid: Float32Array, count: number, bins: Uint32Array): void {
+  bins.fill(0);
+  const last = bins.length - 1;
+  for (let i = 0; i < count; i++) {
+    const v = grid[i];
+    bins[Math.min(last, Math.floor((v < 0 ? 0 : v) * bins.length))]++;
+  }
+}
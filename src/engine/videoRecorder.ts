@@ -0,0 +1,101 @@
+import type { ShapetoneRenderer } from './ShapetoneRenderer';
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export interface VideoExportOptions {
+  format: VideoFormat;
+  fps: number;
+  duration: number;    // seconds
+  width: number;       // output pixels
+  height: number;
+}
+
+const MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+/** First MediaRecorder mime type the browser can encode for the format, or null */
+export function getSupportedVideoMimeType(format: VideoFormat): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES[format].find(t => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Record one pass of the timeline (starting at 0) into a video file.
+ * Every frame is rendered at its exact timeline position with renderToCanvasAt
+ * while the recorder is paused, then recorded for one frame interval, so the
+ * clip keeps its timing however long frames take to render. The live preview
+ * is paused meanwhile.
+ */
+export async function recordVideo(
+  renderer: ShapetoneRenderer,
+  options: VideoExportOptions,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  const mimeType = getSupportedVideoMimeType(options.format);
+  if (!mimeType) {
+    throw new Error(`Video format not supported by this browser: ${options.format}`);
+  }
+
+  // Most encoders reject odd frame dimensions
+  const width = Math.max(2, Math.round(options.width / 2) * 2);
+  const height = Math.max(2, Math.round(options.height / 2) * 2);
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  const frameMs = 1000 / options.fps;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(width * height * options.fps * 0.15),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  let failed = false;
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => {
+      failed = true;
+      resolve();
+    };
+  });
+
+  const resumeTime = renderer.currentTime;
+  renderer.stop();
+  try {
+    await renderer.renderToCanvasAt(0, canvas, width, height);
+    recorder.start();
+
+    for (let i = 0; i < frameCount && !failed; i++) {
+      if (i > 0) {
+        recorder.pause();
+        await renderer.renderToCanvasAt(i / options.fps, canvas, width, height);
+        if (failed) break;
+        recorder.resume();
+      }
+      track.requestFrame();
+      await wait(frameMs);
+      onProgress?.((i + 1) / frameCount);
+    }
+
+    if (recorder.state !== 'inactive') recorder.stop();
+    await stopped;
+  } finally {
+    stream.getTracks().forEach(t => t.stop());
+    renderer.seek(resumeTime);
+    renderer.start();
+  }
+
+  if (failed) throw new Error('Video recording failed');
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
@@ -0,0 +1,530 @@
+import * as THREE from 'three';
+import type { AppState } from '../types';
+import { getLayoutPoints } from './layouts';
+import { getMediaRect, getMediaSize } from './sampling';
+import type { SampleSource } from './sampling';
+import { MIN_RADIUS } from './cells';
+import { drawShape } from './shapeDrawer';
+import { TONE_LUT_SIZE, buildToneLut, isIdentityTone } from './toneCurve';
+import { buildGradientLut, hexToRgb } from '../utils/color';
+
+// Palette entries the shader can snap to
+const MAX_PALETTE = 32;
+// Glyph distance fields: texture size, half-size relative to the shape radius
+// (characters reach past it) and the distance range stored, in texels
+const GLYPH_SIZE = 128;
+const GLYPH_REACH = 1.25;
+const GLYPH_SPREAD = 8;
+// Alpha below which a point sample counts as background, as in computeBrightnessGrid
+const POINT_ALPHA_CUTOFF = 10 / 255;
+
+/**
+ * Why the WebGL renderer cannot draw these settings, or null when it can.
+ * Shapes it draws match the Canvas 2D ones; area and Gaussian sampling are
+ * approximated by reading the source's mipmaps over one cell.
+ */
+export function getWebGLFallbackReason(state: AppState): string | null {
+  if (state.lineScreen.pattern !== 'off') return 'line screens';
+  if (state.separation.mode !== 'off') return 'separations';
+  if (state.shape === 'ramp') return 'shape ramps';
+  if (state.outline.mode !== 'off') return 'outlines';
+  if (state.mapping.dither !== 'none') return 'dithering';
+  if (state.mapping.source === 'edges') return 'edge detection';
+  if (state.colors.mode === 'palette' && state.colors.palette.length > MAX_PALETTE) return `palettes over ${MAX_PALETTE} colors`;
+  return null;
+}
+
+// Shape kinds in the fragment shader
+const SHAPE_CIRCLE = 0;
+const SHAPE_POLYGON = 1;
+const SHAPE_GLYPH = 2;
+
+/** Regular polygons with a vertex at the top: sides, circumradius relative to r, turn */
+function polygonForShape(state: AppState): { sides: number; scale: number; turn: number } | null {
+  switch (state.shape) {
+    case 'square':
+      return { sides: 4, scale: Math.SQRT2, turn: Math.PI / 4 };
+    case 'diamond':
+      return { sides: 4, scale: 1, turn: 0 };
+    case 'polygon':
+      return { sides: Math.max(3, Math.round(state.shapeParams.sides)), scale: 1, turn: 0 };
+    default:
+      return null;
+  }
+}
+
+/** A number as a GLSL float literal */
+function glslFloat(v: number): string {
+  return v.toFixed(6);
+}
+
+const VERTEX_SHADER = /* glsl */ `
+precision highp float;
+
+in vec2 position;
+in vec2 center;
+
+uniform vec2 uResolution;
+uniform vec3 uView;
+uniform vec2 uRotation;
+uniform float uExtent;
+
+out vec2 vLocal;
+flat out vec2 vCenter;
+
+void main() {
+  vLocal = position * uExtent;
+  vCenter = center;
+  vec2 p = center + vec2(uRotation.x * vLocal.x - uRotation.y * vLocal.y, uRotation.y * vLocal.x + uRotation.x * vLocal.y);
+  vec2 screen = p * uView.x + uView.yz;
+  gl_Position = vec4(screen.x / uResolution.x * 2.0 - 1.0, 1.0 - screen.y / uResolution.y * 2.0, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+precision highp float;
+precision highp sampler2D;
+
+#define PI 3.141592653589793
+#define MAX_PALETTE ${MAX_PALETTE}
+
+in vec2 vLocal;
+flat in vec2 vCenter;
+
+uniform sampler2D uSource;
+uniform vec2 uSourceSize;
+uniform vec4 uMediaRect;
+uniform int uSampling;
+uniform float uFootprint;
+uniform float uContrast;
+uniform float uBrightness;
+uniform float uBackground;
+uniform bool uHasTone;
+uniform sampler2D uTone;
+uniform bool uInvert;
+uniform float uMinSize;
+uniform float uMaxSize;
+uniform float uMaxRadius;
+uniform int uShape;
+uniform vec3 uPolygon;
+uniform sampler2D uGlyph;
+uniform int uColorMode;
+uniform vec3 uForeground;
+uniform sampler2D uGradient;
+uniform vec3 uPalette[MAX_PALETTE];
+uniform int uPaletteSize;
+uniform float uPixel;
+
+out vec4 fragColor;
+
+// Premultiplied source color at a layout point, transparent off the media;
+// a negative lod reads the single texel under the point
+vec4 sampleSource(vec2 p, float lod) {
+  vec2 uv = (p - uMediaRect.xy) / uMediaRect.zw;
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x >= 1.0 || uv.y >= 1.0) return vec4(0.0);
+  if (lod < 0.0) return texelFetch(uSource, ivec2(uv * uSourceSize), 0);
+  return textureLod(uSource, uv, lod);
+}
+
+vec3 nearestPaletteColor(vec3 c) {
+  vec3 best = uPalette[0];
+  float bestDist = 1e20;
+  for (int i = 0; i < MAX_PALETTE; i++) {
+    if (i >= uPaletteSize) break;
+    // Same red-mean weighted distance as nearestColorIndex, on 0-255 channels
+    vec3 p = uPalette[i] * 255.0;
+    vec3 q = c * 255.0;
+    float rMean = (q.r + p.r) / 2.0;
+    vec3 d = q - p;
+    float dist = (2.0 + rMean / 256.0) * d.r * d.r + 4.0 * d.g * d.g + (2.0 + (255.0 - rMean) / 256.0) * d.b * d.b;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = uPalette[i];
+    }
+  }
+  return best;
+}
+
+void main() {
+  // Mip level whose texels cover one cell of the source
+  float cellLod = log2(max(uFootprint * uSourceSize.x / uMediaRect.z, 1.0));
+  float lod = uSampling == 0 ? -1.0 : uSampling == 2 ? cellLod + 0.5 : cellLod;
+  vec4 s = sampleSource(vCenter, lod);
+  float lum = uSampling == 0 && s.a < ${glslFloat(POINT_ALPHA_CUTOFF)} ? uBackground : dot(s.rgb, vec3(0.299, 0.587, 0.114)) + uBackground * (1.0 - s.a);
+  lum = clamp((lum - 0.5) * uContrast + 0.5 + uBrightness / 255.0, 0.0, 1.0);
+  if (uHasTone) lum = texelFetch(uTone, ivec2(int(round(lum * ${glslFloat(TONE_LUT_SIZE - 1)})), 0), 0).r;
+
+  float b = uInvert ? 1.0 - lum : lum;
+  float r = uMaxRadius * clamp(uMinSize + b * (uMaxSize - uMinSize), 0.0, 1.0);
+  if (r < ${glslFloat(MIN_RADIUS)}) discard;
+
+  // Signed distance to the shape outline, layout px
+  float d;
+  if (uShape == ${SHAPE_CIRCLE}) {
+    d = length(vLocal) - r;
+  } else if (uShape == ${SHAPE_POLYGON}) {
+    float sector = PI / uPolygon.x;
+    float theta = atan(vLocal.x, -vLocal.y) + uPolygon.z;
+    d = length(vLocal) * cos(mod(theta, 2.0 * sector) - sector) - r * uPolygon.y * cos(sector);
+  } else {
+    vec2 uv = vLocal / (r * ${glslFloat(GLYPH_REACH)}) * 0.5 + 0.5;
+    if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) discard;
+    d = (texture(uGlyph, uv).r - 0.5) * ${glslFloat((4 * GLYPH_SPREAD * GLYPH_REACH) / GLYPH_SIZE)} * r;
+  }
+  float coverage = clamp(0.5 - d / uPixel, 0.0, 1.0);
+  if (coverage <= 0.0) discard;
+
+  vec3 color = uForeground;
+  if (uColorMode == 1 || uColorMode == 3) {
+    vec4 c = sampleSource(vCenter, cellLod);
+    color = c.a < 0.005 ? vec3(uBackground) : clamp((c.rgb / c.a - 0.5) * uContrast + 0.5 + uBrightness / 255.0, 0.0, 1.0);
+    if (uColorMode == 3 && uPaletteSize > 0) color = nearestPaletteColor(color);
+  } else if (uColorMode == 2) {
+    color = texelFetch(uGradient, ivec2(int(round(b * 255.0)), 0), 0).rgb;
+  }
+  fragColor = vec4(color, coverage);
+}
+`;
+
+const COLOR_MODES = { foreground: 0, source: 1, gradient: 2, palette: 3 } as const;
+const SAMPLING_MODES = { point: 0, area: 1, gaussian: 2 } as const;
+
+/**
+ * Draws the preview with one instanced quad per cell. Brightness is sampled
+ * in the fragment shader, and each shape is cut from its quad by a signed
+ * distance: exact for circles and regular polygons, and for other shapes a
+ * distance field built once from the Canvas 2D drawing (glyphs). Only the
+ * point positions are computed on the CPU, and only when the grid changes.
+ */
+export class WebGLShapeRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private renderer: THREE.WebGLRenderer;
+  private scene = new THREE.Scene();
+  private camera = new THREE.Camera();
+  private mesh: THREE.Mesh<THREE.InstancedBufferGeometry, THREE.RawShaderMaterial>;
+  private material: THREE.RawShaderMaterial;
+  private centers: THREE.InstancedBufferAttribute | null = null;
+  private pointsKey: { grid: AppState['grid']; w: number; h: number } | null = null;
+  private source: { media: SampleSource; width: number; height: number; texture: THREE.Texture } | null = null;
+  private tone: { state: AppState['mapping']; texture: THREE.DataTexture } | null = null;
+  private gradient: { stops: AppState['colors']['gradient']; texture: THREE.DataTexture } | null = null;
+  private glyph: { key: unknown[]; texture: THREE.DataTexture } | null = null;
+
+  /** Throws when WebGL 2 is unavailable */
+  constructor() {
+    this.renderer = new THREE.WebGLRenderer({ antialias: false, alpha: true, premultipliedAlpha: true });
+    this.renderer.setClearColor(0x000000, 0);
+    this.canvas = this.renderer.domElement;
+
+    const empty = new THREE.DataTexture(new Uint8Array(4), 1, 1);
+    empty.needsUpdate = true;
+    this.material = new THREE.RawShaderMaterial({
+      glslVersion: THREE.GLSL3,
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+      uniforms: {
+        uResolution: { value: new THREE.Vector2() },
+        uView: { value: new THREE.Vector3() },
+        uRotation: { value: new THREE.Vector2(1, 0) },
+        uExtent: { value: 0 },
+        uSource: { value: empty },
+        uSourceSize: { value: new THREE.Vector2(1, 1) },
+        uMediaRect: { value: new THREE.Vector4() },
+        uSampling: { value: 0 },
+        uFootprint: { value: 0 },
+        uContrast: { value: 1 },
+        uBrightness: { value: 0 },
+        uBackground: { value: 0 },
+        uHasTone: { value: false },
+        uTone: { value: empty },
+        uInvert: { value: false },
+        uMinSize: { value: 0 },
+        uMaxSize: { value: 1 },
+        uMaxRadius: { value: 0 },
+        uShape: { value: SHAPE_CIRCLE },
+        uPolygon: { value: new THREE.Vector3(4, 1, 0) },
+        uGlyph: { value: empty },
+        uColorMode: { value: 0 },
+        uForeground: { value: new THREE.Vector3(1, 1, 1) },
+        uGradient: { value: empty },
+        uPalette: { value: Array.from({ length: MAX_PALETTE }, () => new THREE.Vector3()) },
+        uPaletteSize: { value: 0 },
+        uPixel: { value: 1 },
+      },
+    });
+    this.mesh = new THREE.Mesh(new THREE.InstancedBufferGeometry(), this.material);
+    this.mesh.frustumCulled = false;
+    this.scene.add(this.mesh);
+  }
+
+  /**
+   * Draw the cells for a w × h layout onto `canvas` (transparent background),
+   * at `pixelRatio` device pixels per layout px. Call only with settings
+   * getWebGLFallbackReason accepts.
+   */
+  render(media: SampleSource, state: AppState, w: number, h: number, pixelRatio: number): void {
+    const { mapping, grid, colors, view, mediaTransform, obj3d } = state;
+    const { width: mediaW, height: mediaH } = getMediaSize(media);
+    const u = this.material.uniforms;
+
+    const width = Math.max(1, Math.round(w * pixelRatio));
+    const height = Math.max(1, Math.round(h * pixelRatio));
+    if (this.canvas.width !== width || this.canvas.height !== height) this.renderer.setSize(width, height, false);
+
+    this.updatePoints(state, w, h);
+    u.uSource.value = this.updateSource(media, mediaW, mediaH);
+    const rect = getMediaRect(mediaW, mediaH, w, h, mediaTransform);
+    u.uMediaRect.value.set(rect.x, rect.y, rect.width, rect.height);
+    u.uSourceSize.value.set(mediaW, mediaH);
+
+    const angle = (grid.angle * Math.PI) / 180;
+    u.uResolution.value.set(w, h);
+    u.uView.value.set(view.scale, view.offsetX, view.offsetY);
+    u.uRotation.value.set(Math.cos(angle), Math.sin(angle));
+    u.uPixel.value = 1 / (view.scale * pixelRatio);
+
+    u.uSampling.value = SAMPLING_MODES[mapping.sampling];
+    u.uFootprint.value = grid.density;
+    u.uContrast.value = mapping.contrast;
+    u.uBrightness.value = mapping.brightness;
+    u.uBackground.value = state.mediaType === 'obj3d' ? obj3d.bgBrightness : 0;
+    const tone = this.updateTone(mapping);
+    u.uHasTone.value = tone !== null;
+    if (tone) u.uTone.value = tone;
+    u.uInvert.value = mapping.invert;
+    u.uMinSize.value = mapping.minSize / 100;
+    u.uMaxSize.value = mapping.maxSize / 100;
+
+    // Quads cover the largest shape plus a pixel for antialiasing
+    const maxRadius = grid.density * 0.48;
+    const largest = maxRadius * Math.min(1, Math.max(0, mapping.minSize / 100, mapping.maxSize / 100));
+    const polygon = polygonForShape(state);
+    let reach = 1;
+    if (state.shape === 'circle') {
+      u.uShape.value = SHAPE_CIRCLE;
+    } else if (polygon) {
+      u.uShape.value = SHAPE_POLYGON;
+      u.uPolygon.value.set(polygon.sides, polygon.scale, polygon.turn);
+      reach = polygon.scale;
+    } else {
+      u.uShape.value = SHAPE_GLYPH;
+      u.uGlyph.value = this.updateGlyph(state);
+      reach = GLYPH_REACH;
+    }
+    u.uMaxRadius.value = maxRadius;
+    u.uExtent.value = largest * reach + u.uPixel.value;
+
+    u.uColorMode.value = COLOR_MODES[colors.mode];
+    const [fr, fg, fb] = hexToRgb(colors.foreground);
+    u.uForeground.value.set(fr / 255, fg / 255, fb / 255);
+    if (colors.mode === 'gradient') u.uGradient.value = this.updateGradient(colors.gradient);
+    if (colors.mode === 'palette') {
+      colors.palette.forEach((hex, i) => {
+        const [r, g, b] = hexToRgb(hex);
+        u.uPalette.value[i].set(r / 255, g / 255, b / 255);
+      });
+      u.uPaletteSize.value = colors.palette.length;
+    }
+
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  dispose(): void {
+    this.source?.texture.dispose();
+    this.tone?.texture.dispose();
+    this.gradient?.texture.dispose();
+    this.glyph?.texture.dispose();
+    this.mesh.geometry.dispose();
+    this.material.dispose();
+    this.renderer.dispose();
+  }
+
+  /** Upload the layout points as instance centers when the grid or layout size changes */
+  private updatePoints(state: AppState, w: number, h: number): void {
+    const key = this.pointsKey;
+    if (key && key.grid === state.grid && key.w === w && key.h === h) return;
+    this.pointsKey = { grid: state.grid, w, h };
+
+    const points = getLayoutPoints(state.grid, w, h);
+    let centers = this.centers;
+    if (!centers || centers.count < points.count) {
+      // three.js caches the instance limit per geometry, so a larger buffer gets a new one
+      centers = new THREE.InstancedBufferAttribute(new Float32Array(Math.max(1024, points.count * 2) * 2), 2);
+      centers.setUsage(THREE.DynamicDrawUsage);
+      const geometry = new THREE.InstancedBufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array([-1, -1, 1, -1, 1, 1, -1, 1]), 2));
+      geometry.setIndex([0, 1, 2, 0, 2, 3]);
+      geometry.setAttribute('center', centers);
+      this.mesh.geometry.dispose();
+      this.mesh.geometry = geometry;
+      this.centers = centers;
+    }
+    const data = centers.array as Float32Array;
+    for (let i = 0; i < points.count; i++) {
+      data[i * 2] = points.x[i];
+      data[i * 2 + 1] = points.y[i];
+    }
+    centers.clearUpdateRanges();
+    centers.addUpdateRange(0, points.count * 2);
+    centers.needsUpdate = true;
+    this.mesh.geometry.instanceCount = points.count;
+  }
+
+  /**
+   * Upload the current source frame. Premultiplied, so mipmaps average
+   * colors weighted by alpha like the CPU sampler; a new texture is made
+   * when the media or its size changes.
+   */
+  private updateSource(media: SampleSource, width: number, height: number): THREE.Texture {
+    const current = this.source;
+    if (current && current.media === media && current.width === width && current.height === height) {
+      current.texture.needsUpdate = true;
+      return current.texture;
+    }
+    current?.texture.dispose();
+    const texture = new THREE.Texture(media);
+    texture.flipY = false;
+    texture.premultiplyAlpha = true;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    this.source = { media, width, height, texture };
+    return texture;
+  }
+
+  /** Levels and curve lookup table, or null when they change nothing */
+  private updateTone(mapping: AppState['mapping']): THREE.DataTexture | null {
+    if (isIdentityTone(mapping.levels, mapping.curve)) return null;
+    const cached = this.tone;
+    if (cached && cached.state.levels === mapping.levels && cached.state.curve === mapping.curve) return cached.texture;
+    cached?.texture.dispose();
+    // Copied into a buffer WebGL accepts
+    const lut = Float32Array.from(buildToneLut(mapping.levels, mapping.curve));
+    const texture = new THREE.DataTexture(lut, TONE_LUT_SIZE, 1, THREE.RedFormat, THREE.FloatType);
+    texture.needsUpdate = true;
+    this.tone = { state: mapping, texture };
+    return texture;
+  }
+
+  /** Gradient map lookup table, rebuilt only when the stops change */
+  private updateGradient(stops: AppState['colors']['gradient']): THREE.DataTexture {
+    if (this.gradient?.stops === stops) return this.gradient.texture;
+    this.gradient?.texture.dispose();
+    const lut = buildGradientLut(stops);
+    const rgba = new Uint8Array(lut.length * 4);
+    for (let i = 0; i < lut.length; i++) {
+      rgba[i * 4] = lut[i] >> 16;
+      rgba[i * 4 + 1] = (lut[i] >> 8) & 255;
+      rgba[i * 4 + 2] = lut[i] & 255;
+      rgba[i * 4 + 3] = 255;
+    }
+    const texture = new THREE.DataTexture(rgba, lut.length, 1);
+    texture.needsUpdate = true;
+    this.gradient = { stops, texture };
+    return texture;
+  }
+
+  /** Distance field of the current shape, rebuilt when the shape or its settings change */
+  private updateGlyph(state: AppState): THREE.DataTexture {
+    const key = [state.shape, state.customTextChar, state.customSvgPath, state.shapeParams];
+    const cached = this.glyph;
+    if (cached && cached.key.every((v, i) => v === key[i])) return cached.texture;
+    cached?.texture.dispose();
+    const texture = new THREE.DataTexture(
+      buildGlyphField(state),
+      GLYPH_SIZE, GLYPH_SIZE, THREE.RedFormat, THREE.UnsignedByteType,
+    );
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    this.glyph = { key, texture };
+    return texture;
+  }
+}
+
+/**
+ * Signed distance field of a shape drawn by the Canvas 2D renderer, centered
+ * with radius GLYPH_SIZE / 2 / GLYPH_REACH. Stored as 0.5 on the outline,
+ * rising outward by 0.5 per GLYPH_SPREAD texels.
+ */
+function buildGlyphField(state: AppState): Uint8Array<ArrayBuffer> {
+  const canvas = document.createElement('canvas');
+  canvas.width = GLYPH_SIZE;
+  canvas.height = GLYPH_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = '#fff';
+  drawShape(
+    ctx, state.shape, GLYPH_SIZE / 2, GLYPH_SIZE / 2, GLYPH_SIZE / 2 / GLYPH_REACH,
+    state.customSvgPath, state.customSvgViewBox, state.customTextChar, 0, state.shapeParams,
+  );
+  const alpha = ctx.getImageData(0, 0, GLYPH_SIZE, GLYPH_SIZE).data;
+
+  const n = GLYPH_SIZE * GLYPH_SIZE;
+  const toInside = new Float64Array(n);
+  const toOutside = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const inside = alpha[i * 4 + 3] >= 128;
+    toInside[i] = inside ? 0 : Infinity;
+    toOutside[i] = inside ? Infinity : 0;
+  }
+  distanceTransform(toInside, GLYPH_SIZE);
+  distanceTransform(toOutside, GLYPH_SIZE);
+
+  const field = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    // Half a texel puts the outline between inside and outside texels
+    const d = toInside[i] > 0 ? Math.sqrt(toInside[i]) - 0.5 : 0.5 - Math.sqrt(toOutside[i]);
+    const v = 0.5 + d / (2 * GLYPH_SPREAD);
+    field[i] = Math.round((v < 0 ? 0 : v > 1 ? 1 : v) * 255);
+  }
+  return field;
+}
+
+/** Squared Euclidean distance to the nearest zero of a size × size grid, in place (Felzenszwalb–Huttenlocher) */
+function distanceTransform(grid: Float64Array, size: number): void {
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) f[y] = grid[y * size + x];
+    distanceTransform1D(f, d, v, z, size);
+    for (let y = 0; y < size; y++) grid[y * size + x] = d[y];
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) f[x] = grid[y * size + x];
+    distanceTransform1D(f, d, v, z, size);
+    for (let x = 0; x < size; x++) grid[y * size + x] = d[x];
+  }
+}
+
+/** Lower envelope of the parabolas rooted at f; Infinity marks no feature */
+function distanceTransform1D(f: Float64Array, d: Float64Array, v: Int32Array, z: Float64Array, n: number): void {
+  // Infinite samples cannot root a parabola; skip them and leave rows without features infinite
+  let k = -1;
+  for (let q = 0; q < n; q++) {
+    if (f[q] === Infinity) continue;
+    let s = -Infinity;
+    while (k >= 0) {
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      if (s > z[k]) break;
+      k--;
+    }
+    k++;
+    v[k] = q;
+    z[k] = k === 0 ? -Infinity : s;
+    z[k + 1] = Infinity;
+  }
+  if (k < 0) {
+    d.fill(Infinity, 0, n);
+    return;
+  }
+  let j = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[j + 1] < q) j++;
+    d[q] = (q - v[j]) * (q - v[j]) + f[v[j]];
+  }
+}
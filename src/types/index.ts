@@ -1,24 +1,161 @@
-export type ShapeType = 'circle' | 'square' | 'triangle-up' | 'text' | 'custom';
+import { GRADIENT_PRESETS, PALETTE_PRESETS } from '../utils/colorPresets';
+import { RAMP_PRESETS } from '../utils/shapeRamps';
+
+/** Built-in shapes drawn from ShapeParams (see shapeGeometry) */
+export type ParametricShape = 'polygon' | 'star' | 'diamond' | 'cross' | 'ring' | 'rounded-square' | 'heart' | 'line';
+
+export type ShapeType = 'circle' | 'square' | 'triangle-up' | ParametricShape | 'text' | 'custom' | 'ramp';
+
+/** Settings of the parametric shapes; each shape reads the ones it needs */
+export interface ShapeParams {
+  sides: number;        // 3-12: polygon sides, star points
+  innerRadius: number;  // 0.1-0.9: star inner radius relative to the outer one
+  thickness: number;    // 0.05-0.9: cross arm, ring and line width relative to the shape size
+  cornerRadius: number; // 0-1: rounded square corner relative to half the side
+}
+
+/** One band of a shape ramp: a built-in shape, a character (shape 'text') or the custom SVG */
+export interface RampStep {
+  shape: Exclude<ShapeType, 'ramp'>;
+  char: string;        // used when shape is 'text'
+}
+
+/** Brightness bands mapped to an ordered list of shapes, for the 'ramp' shape */
+export interface ShapeRamp {
+  steps: RampStep[];   // darkest band first
+  scale: boolean;      // keep scaling by brightness within a band, or draw every shape at max size
+}
+
+/**
+ * Outline rendering instead of fills. weight: shapes at max size with the
+ * stroke weight following brightness; size: shapes sized by brightness with
+ * a constant stroke.
+ */
+export type OutlineMode = 'off' | 'weight' | 'size';
+
+export interface OutlineSettings {
+  mode: OutlineMode;
+  width: number;       // px: the constant stroke ('size'), or the heaviest one ('weight')
+  cap: 'butt' | 'round' | 'square';
+  join: 'miter' | 'round' | 'bevel';
+}
 
 export type MediaType = 'image' | 'video' | 'gif' | 'obj3d';
 
+/**
+ * 1-bit rendering: every cell is a full-size shape or nothing, decided by
+ * error diffusion or an ordered Bayer matrix of the given size
+ */
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'atkinson' | 'jarvis' | 'bayer2' | 'bayer4' | 'bayer8';
+
+/**
+ * How the source is read under each cell: the pixel at its center (fastest),
+ * the average of every pixel in the cell, or a Gaussian-weighted average that
+ * reaches into neighbouring cells (smoothest, steadiest on video)
+ */
+export type SamplingQuality = 'point' | 'area' | 'gaussian';
+
+/** Input/output levels, all 0-1 except gamma (midtone exponent, 1 = linear) */
+export interface ToneLevels {
+  inBlack: number;
+  inWhite: number;
+  gamma: number;       // 0.1-3
+  outBlack: number;
+  outWhite: number;
+}
+
+/** Tone curve control point, 0-1 on both axes */
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+/** What drives shape size: source luminance, or local edge strength (Sobel) for line-art looks */
+export type BrightnessSource = 'luminance' | 'edges';
+
 export interface BrightnessMapping {
   invert: boolean;
   minSize: number;     // 0-100
   maxSize: number;     // 0-100
   contrast: number;    // 0.1-3.0
   brightness: number;  // -100 to 100
+  dither: DitherMethod;
+  sampling: SamplingQuality;
+  source: BrightnessSource;
+  edgeThreshold: number;   // 0-100, edge strength below this draws nothing
+  edgeBlur: number;        // 0-10 layout px, smooths the source before the gradient
+  levels: ToneLevels;  // applied after contrast/brightness, before the curve
+  curve: CurvePoint[]; // sorted by x, first at x = 0 and last at x = 1
+}
+
+/**
+ * Cell placement: square rows, hexagonal packing, offset (brick) rows or a
+ * 45° diamond lattice; or points radiating from `center` as concentric
+ * rings, an Archimedean spiral or golden-angle phyllotaxis
+ */
+export type GridLayout = 'square' | 'hex' | 'brick' | 'diamond' | 'concentric' | 'spiral' | 'phyllotaxis';
+
+/**
+ * Line-screen halftone instead of shapes: continuous lines one grid spacing
+ * apart whose width follows brightness along their length. lines: parallel
+ * at the screen angle; waves: the same lines bent into sine waves; circles:
+ * concentric around the grid center.
+ */
+export type LineScreenPattern = 'off' | 'lines' | 'waves' | 'circles';
+
+export interface LineScreenSettings {
+  pattern: LineScreenPattern;
+  amplitude: number;   // waves: 0-2 × spacing
+  wavelength: number;  // waves: 2-20 × spacing
 }
 
 export interface GridSettings {
   density: number;     // 5-100 (spacing in px)
+  layout: GridLayout;
+  angle: number;       // screen angle in degrees; rotates the layout and shapes
+  center: { x: number; y: number };  // 0-1 of the canvas, origin of radial layouts
+}
+
+/**
+ * How shapes are filled: the foreground color, each cell's average source
+ * color, that color snapped to the nearest palette entry, or a gradient map
+ * looked up by the brightness that also drives shape size
+ */
+export type ColorMode = 'foreground' | 'source' | 'palette' | 'gradient';
+
+export interface GradientStop {
+  offset: number;      // 0-1 along the brightness ramp
+  color: string;
 }
 
 export interface ColorSettings {
   background: string;
   foreground: string;
+  mode: ColorMode;
+  palette: string[];   // hex colors for 'palette' mode
+  gradient: GradientStop[];  // stops for 'gradient' mode, in any order
 }
 
+/**
+ * Halftone separations: one screen per CMYK ink (multiplied on white paper)
+ * or per RGB light (screened on black), rebuilding color like offset print
+ */
+export type SeparationMode = 'off' | 'cmyk' | 'rgb';
+
+export type SeparationChannel = 'cyan' | 'magenta' | 'yellow' | 'black' | 'red' | 'green' | 'blue';
+
+export interface SeparationSettings {
+  mode: SeparationMode;
+  angles: Record<SeparationChannel, number>;  // screen angle in degrees per channel
+}
+
+/**
+ * What draws the live preview: Canvas 2D (the reference, supports every
+ * setting) or WebGL instancing for dense grids, which falls back to Canvas 2D
+ * for settings it cannot draw. Exports always use Canvas 2D.
+ */
+export type RenderBackend = 'canvas' | 'webgl';
+
 export interface ViewTransform {
   scale: number;       // 1.0 = 100%
   offsetX: number;     // pan X
@@ -46,9 +183,15 @@ export interface AppState {
   customSvgPath: string | null;
   customSvgViewBox: { width: number; height: number } | null;
   customTextChar: string;  // unicode character for 'text' shape
+  shapeParams: ShapeParams;
+  shapeRamp: ShapeRamp;
+  outline: OutlineSettings;
   grid: GridSettings;
+  lineScreen: LineScreenSettings;
   mapping: BrightnessMapping;
   colors: ColorSettings;
+  separation: SeparationSettings;
+  backend: RenderBackend;
   view: ViewTransform;
   mediaTransform: MediaTransform;
   obj3d: Obj3dSettings;
@@ -61,18 +204,38 @@ export const DEFAULT_STATE: AppState = {
   customSvgPath: null,
   customSvgViewBox: null,
   customTextChar: '*',
-  grid: { density: 20 },
+  shapeParams: { sides: 6, innerRadius: 0.5, thickness: 0.3, cornerRadius: 0.4 },
+  shapeRamp: RAMP_PRESETS[0].ramp,
+  outline: { mode: 'off', width: 2, cap: 'round', join: 'round' },
+  grid: { density: 20, layout: 'square', angle: 0, center: { x: 0.5, y: 0.5 } },
+  lineScreen: { pattern: 'off', amplitude: 0.5, wavelength: 6 },
   mapping: {
     invert: false,
     minSize: 0,
     maxSize: 100,
     contrast: 1.0,
     brightness: 0,
+    dither: 'none',
+    sampling: 'point',
+    source: 'luminance',
+    edgeThreshold: 10,
+    edgeBlur: 2,
+    levels: { inBlack: 0, inWhite: 1, gamma: 1, outBlack: 0, outWhite: 1 },
+    curve: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
   },
   colors: {
     background: '#000000',
     foreground: '#ffffff',
+    mode: 'foreground',
+    palette: PALETTE_PRESETS[0].colors,
+    gradient: GRADIENT_PRESETS[0].stops,
+  },
+  separation: {
+    mode: 'off',
+    // Classic offset angles keep the screens from forming moiré
+    angles: { cyan: 15, magenta: 75, yellow: 0, black: 45, red: 15, green: 75, blue: 45 },
   },
+  backend: 'canvas',
   view: {
     scale: 1,
     offsetX: 0,
@@ -0,0 +1,81 @@
+import type { GradientStop } from '../types';
+
+export type RGB = [number, number, number];
+
+/** Parse `#rgb` or `#rrggbb` into 0-255 channels (invalid input yields black) */
+export function hexToRgb(hex: string): RGB {
+  let h = hex.replace('#', '');
+  if (h.length === 3) h = h[0] + h[0] + h[1] + h[1] + h[2] + h[2];
+  const n = parseInt(h, 16);
+  if (h.length !== 6 || Number.isNaN(n)) return [0, 0, 0];
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+export function rgbToHex(r: number, g: number, b: number): string {
+  const v = (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b);
+  return '#' + v.toString(16).padStart(6, '0');
+}
+
+/** Linear interpolation between two colors, t in 0-1 */
+export function mixRgb(a: RGB, b: RGB, t: number): RGB {
+  return [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  ];
+}
+
+/** `#rrggbb` for a packed 0xRRGGBB value */
+export function packedToHex(c: number): string {
+  return '#' + c.toString(16).padStart(6, '0');
+}
+
+/**
+ * Index of the palette color closest to `c`, using the "redmean" weighted
+ * distance, which tracks perceived difference better than plain RGB.
+ */
+export function nearestColorIndex(c: RGB, palette: RGB[]): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const p = palette[i];
+    const rMean = (c[0] + p[0]) / 2;
+    const dr = c[0] - p[0];
+    const dg = c[1] - p[1];
+    const db = c[2] - p[2];
+    const d = (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Packed 0xRRGGBB colors sampled evenly along a gradient, `size` entries
+ * from offset 0 to 1. Stops may be unsorted; the ends hold the outer colors.
+ */
+export function buildGradientLut(stops: GradientStop[], size = 256): Uint32Array {
+  const lut = new Uint32Array(size);
+  if (stops.length === 0) return lut;
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+  const rgb = sorted.map(s => hexToRgb(s.color));
+
+  let k = 0;
+  for (let i = 0; i < size; i++) {
+    const t = size > 1 ? i / (size - 1) : 0;
+    while (k < sorted.length - 1 && sorted[k + 1].offset < t) k++;
+    let c: RGB;
+    if (t <= sorted[0].offset) {
+      c = rgb[0];
+    } else if (k === sorted.length - 1) {
+      c = rgb[k];
+    } else {
+      const span = sorted[k + 1].offset - sorted[k].offset;
+      c = mixRgb(rgb[k], rgb[k + 1], span > 0 ? (t - sorted[k].offset) / span : 0);
+    }
+    lut[i] = (Math.round(c[0]) << 16) | (Math.round(c[1]) << 8) | Math.round(c[2]);
+  }
+  return lut;
+}
@@ -1,3 +1,5 @@
+import type { GradientStop } from '../types';
+
 export interface ColorPreset {
   name: string;
   background: string;
@@ -19,3 +21,32 @@ export const COLOR_PRESETS: ColorPreset[] = [
   { name: 'Ember Navy',   background: '#1a1a5c', foreground: '#f06030' },
   { name: 'Red Wine',     background: '#380000', foreground: '#dc2626' },
 ];
+
+export interface PalettePreset {
+  name: string;
+  colors: string[];
+}
+
+/** Palettes for the quantized color mode */
+export const PALETTE_PRESETS: PalettePreset[] = [
+  { name: 'PICO-8',     colors: ['#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8', '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa'] },
+  { name: 'Game Boy',   colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'] },
+  { name: 'Risograph',  colors: ['#f2f0e6', '#ff48b0', '#0078bf', '#ffe800', '#000000'] },
+  { name: 'Primaries',  colors: ['#ffffff', '#e53935', '#1e88e5', '#fdd835', '#111111'] },
+  { name: 'Earth',      colors: ['#2b1d14', '#5b3a29', '#9c6644', '#d4a373', '#e9edc9', '#606c38'] },
+];
+
+export interface GradientPreset {
+  name: string;
+  stops: GradientStop[];
+}
+
+/** Duotone and tritone ramps for the gradient map, dark end first */
+export const GRADIENT_PRESETS: GradientPreset[] = [
+  { name: 'Ember',      stops: [{ offset: 0, color: '#2a0a3d' }, { offset: 0.5, color: '#e4572e' }, { offset: 1, color: '#ffd166' }] },
+  { name: 'Ocean',      stops: [{ offset: 0, color: '#03045e' }, { offset: 0.5, color: '#0096c7' }, { offset: 1, color: '#caf0f8' }] },
+  { name: 'Sepia',      stops: [{ offset: 0, color: '#2b1b0e' }, { offset: 1, color: '#f4e1c1' }] },
+  { name: 'Neon',       stops: [{ offset: 0, color: '#ff00a0' }, { offset: 0.5, color: '#7b2ff7' }, { offset: 1, color: '#00f0ff' }] },
+  { name: 'Forest',     stops: [{ offset: 0, color: '#1b2d1a' }, { offset: 0.6, color: '#6a994e' }, { offset: 1, color: '#f2e8cf' }] },
+  { name: 'Cyanotype',  stops: [{ offset: 0, color: '#0b2a5b' }, { offset: 1, color: '#e8f1f8' }] },
+];
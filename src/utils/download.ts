@@ -0,0 +1,9 @@
+/** Save a blob through a temporary link as `shapetone-<timestamp>.<ext>` */
+export function downloadBlob(blob: Blob, extension: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `shapetone-${Date.now()}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
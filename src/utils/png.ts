@@ -0,0 +1,37 @@
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Tag a PNG with its print resolution by inserting a pHYs chunk after IHDR,
+ * so layout tools open it at the intended physical size.
+ */
+export async function setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const src = new Uint8Array(await png.arrayBuffer());
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 crc)
+  const ihdrEnd = 8 + 25;
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);  // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1;                           // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  return new Blob([src.subarray(0, ihdrEnd), chunk, src.subarray(ihdrEnd)], { type: 'image/png' });
+}
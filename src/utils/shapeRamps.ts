@@ -0,0 +1,31 @@
+import type { RampStep, ShapeRamp } from '../types';
+
+export interface RampPreset {
+  name: string;
+  ramp: ShapeRamp;
+}
+
+/** Characters as text steps, one per band */
+function chars(ramp: string): RampStep[] {
+  return [...ramp].map(char => ({ shape: 'text', char }));
+}
+
+/** Shape ramps, darkest band first */
+export const RAMP_PRESETS: RampPreset[] = [
+  { name: 'ASCII',         ramp: { steps: chars(' .:-=+*#%@'), scale: false } },
+  { name: 'Blocks',        ramp: { steps: chars(' ░▒▓█'), scale: false } },
+  {
+    name: 'Dot to Square',
+    ramp: {
+      steps: [{ shape: 'circle', char: '' }, { shape: 'circle', char: '' }, { shape: 'square', char: '' }],
+      scale: true,
+    },
+  },
+  {
+    name: 'Geometric',
+    ramp: {
+      steps: [{ shape: 'triangle-up', char: '' }, { shape: 'circle', char: '' }, { shape: 'square', char: '' }],
+      scale: true,
+    },
+  },
+];